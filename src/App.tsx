@@ -8,6 +8,8 @@ import SolarPanel from './components/sidebar/SolarPanel.tsx';
 import TariffSchedulePanel from './components/sidebar/TariffSchedulePanel.tsx';
 import OffersPanel from './components/sidebar/OffersPanel.tsx';
 import BatteriesPanel from './components/sidebar/BatteriesPanel.tsx';
+import VehiclesPanel from './components/sidebar/VehiclesPanel.tsx';
+import HeatPumpsPanel from './components/sidebar/HeatPumpsPanel.tsx';
 import DataManagementPanel from './components/sidebar/DataManagementPanel.tsx';
 import AnalysisPage from './pages/AnalysisPage.tsx';
 
@@ -60,6 +62,8 @@ export default function App() {
             <TariffSchedulePanel />
             <OffersPanel />
             <BatteriesPanel />
+            <VehiclesPanel />
+            <HeatPumpsPanel />
             <DataManagementPanel />
           </Box>
         </Drawer>
@@ -0,0 +1,100 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Typography,
+  Alert,
+  Stack,
+  Chip,
+} from '@mui/material';
+import type { CalibrationResult } from '../utils/calibration.ts';
+
+interface Props {
+  calibration: CalibrationResult;
+  installationName: string;
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? '—' : `${(ratio * 100).toFixed(0)} %`;
+}
+
+/** Measured vs simulated export for an existing installation, to validate PVGIS and shadow assumptions. */
+export default function CalibrationResults({ calibration, installationName }: Props) {
+  const { exportRatio, generationRatio } = calibration;
+  // Within ±10 % the model is considered calibrated
+  const deviation = Math.abs((generationRatio ?? exportRatio ?? 1) - 1);
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="subtitle1" gutterBottom>
+        Calibración: {installationName}
+      </Typography>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+        <Chip label={`Vertido medido / simulado: ${formatRatio(exportRatio)}`} size="small" />
+        {generationRatio !== null && (
+          <Chip label={`Generación medida / simulada: ${formatRatio(generationRatio)}`} size="small" />
+        )}
+      </Stack>
+      {!calibration.usedMeasuredGeneration && (
+        <Alert severity="info" sx={{ mb: 1 }}>
+          Los datos no incluyen generación: el autoconsumo real es desconocido y el vertido simulado es una cota
+          superior.
+        </Alert>
+      )}
+      {deviation > 0.1 && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          La simulación se desvía más de un 10 % de lo medido: revisa pérdidas del sistema, orientación y obstáculos.
+        </Alert>
+      )}
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Mes</TableCell>
+              <TableCell align="right">Vertido medido</TableCell>
+              <TableCell align="right">Vertido simulado</TableCell>
+              {calibration.usedMeasuredGeneration && <TableCell align="right">Generación medida</TableCell>}
+              <TableCell align="right">Producción simulada</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {calibration.months.map((m) => (
+              <TableRow key={m.month}>
+                <TableCell>{m.month}</TableCell>
+                <TableCell align="right">{m.measuredExportKwh.toFixed(0)} kWh</TableCell>
+                <TableCell align="right">{m.simulatedExportKwh.toFixed(0)} kWh</TableCell>
+                {calibration.usedMeasuredGeneration && (
+                  <TableCell align="right">{(m.measuredGenerationKwh ?? 0).toFixed(0)} kWh</TableCell>
+                )}
+                <TableCell align="right">{m.simulatedProductionKwh.toFixed(0)} kWh</TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell>
+                <strong>Total</strong>
+              </TableCell>
+              <TableCell align="right">
+                <strong>{calibration.measuredExportKwh.toFixed(0)} kWh</strong>
+              </TableCell>
+              <TableCell align="right">
+                <strong>{calibration.simulatedExportKwh.toFixed(0)} kWh</strong>
+              </TableCell>
+              {calibration.usedMeasuredGeneration && (
+                <TableCell align="right">
+                  <strong>{(calibration.measuredGenerationKwh ?? 0).toFixed(0)} kWh</strong>
+                </TableCell>
+              )}
+              <TableCell align="right">
+                <strong>{calibration.simulatedProductionKwh.toFixed(0)} kWh</strong>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  Box,
+  Chip,
+  Stack,
+  TextField,
+} from '@mui/material';
+import type { CompanyOffer } from '../db.ts';
+import type { SimulationResult } from '../utils/simulation.ts';
+import { HOURLY_PEAK_MARGIN, QUARTER_HOUR_PEAK_MARGIN, optimizeContractedPower } from '../utils/powerOptimization.ts';
+import { getTariffPeriodLabel } from '../utils/tariffSchedule.ts';
+
+interface Props {
+  result: SimulationResult;
+  offer: CompanyOffer;
+}
+
+/** Minimum safe contracted power per period for a result, with the power-term savings. */
+export default function ContractedPowerAnalysis({ result, offer }: Props) {
+  const [maximeterKw, setMaximeterKw] = useState<Record<string, number>>({});
+  const analysis = useMemo(() => optimizeContractedPower(result, offer, maximeterKw), [result, offer, maximeterKw]);
+  const margin = analysis.hourlyData ? HOURLY_PEAK_MARGIN : QUARTER_HOUR_PEAK_MARGIN;
+
+  const setReading = (period: string, value: string) =>
+    setMaximeterKw((prev) => {
+      const next = { ...prev };
+      if (value === '') delete next[period];
+      else next[period] = +value;
+      return next;
+    });
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        Potencia contratada
+      </Typography>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mb: 1 }}>
+        <Chip size="small" label={`Actual: ${analysis.currentCost.toFixed(2)} €/año`} />
+        <Chip size="small" label={`Recomendada: ${analysis.recommendedCost.toFixed(2)} €/año`} />
+        <Chip
+          size="small"
+          color={analysis.annualSavings > 0 ? 'success' : 'default'}
+          label={`Ahorro: ${analysis.annualSavings.toFixed(2)} €/año`}
+        />
+      </Stack>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Periodo</TableCell>
+              <TableCell align="right">Contratada</TableCell>
+              <TableCell align="right">Pico de demanda</TableCell>
+              <TableCell align="right">Maxímetro (kW)</TableCell>
+              <TableCell align="right">Recomendada</TableCell>
+              <TableCell align="right">Coste actual</TableCell>
+              <TableCell align="right">Coste recomendado</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {analysis.periods.map((p) => (
+              <TableRow key={p.period}>
+                <TableCell>{getTariffPeriodLabel(p.period)}</TableCell>
+                <TableCell align="right">{p.currentKw.toFixed(2)} kW</TableCell>
+                <TableCell align="right">{p.peakDemandKw.toFixed(2)} kW</TableCell>
+                <TableCell align="right">
+                  <TextField
+                    type="number"
+                    value={maximeterKw[p.period] ?? ''}
+                    onChange={(e) => setReading(p.period, e.target.value)}
+                    size="small"
+                    variant="standard"
+                    sx={{ width: 80 }}
+                    slotProps={{ htmlInput: { step: 0.1, min: 0 } }}
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <strong>{p.recommendedKw.toFixed(1)} kW</strong>
+                </TableCell>
+                <TableCell align="right">{p.currentCost.toFixed(2)} €</TableCell>
+                <TableCell align="right">{p.recommendedCost.toFixed(2)} €</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+        Pico de demanda sin producción solar (consumo medido más vehículo y bomba de calor, menos solo la descarga de
+        batería que la simulación pudo cubrir) con un margen del{' '}
+        {((margin - 1) * 100).toFixed(0)} %
+        {analysis.hourlyData && ' por tratarse de datos horarios, que no recogen picos de pocos minutos'}; si introduces
+        la lectura del maxímetro se usa cuando es mayor.
+      </Typography>
+    </Box>
+  );
+}
@@ -15,31 +15,154 @@ import {
   Stack,
   ToggleButtonGroup,
   ToggleButton,
+  TextField,
+  Tooltip,
 } from '@mui/material';
 import { KeyboardArrowDown, KeyboardArrowUp } from '@mui/icons-material';
-import type { SimulationResult } from '../utils/simulation.ts';
-import type { Battery } from '../db.ts';
+import { getResultKey, type SimulationResult } from '../utils/simulation.ts';
+import type { Battery, CompanyOffer, SolarInstallation } from '../db.ts';
+import {
+  DEFAULT_PROJECTION_SETTINGS,
+  getInstallationCostBreakdown,
+  projectBatteryInvestment,
+  projectSystemInvestment,
+  type FinancialProjection,
+  type ProjectionSettings,
+} from '../utils/financialProjection.ts';
+import { getBatteryUsage, type BatteryUsage } from '../utils/battery.ts';
+import { getRegion } from '../utils/regions.ts';
+import { describePromotion } from '../utils/promotions.ts';
 import CostComparisonChart from './charts/CostComparisonChart.tsx';
 import EnergyFlowChart from './charts/EnergyFlowChart.tsx';
+import ContractedPowerAnalysis from './ContractedPowerAnalysis.tsx';
 
 interface Props {
   results: SimulationResult[];
+  /** "No solar" simulations, one per offer (no battery). */
+  baselineResults: SimulationResult[];
   batteries: Battery[];
+  installations: SolarInstallation[];
+  offers: CompanyOffer[];
+}
+
+/** Same offer with the same extra loads (EV, heat pump) — results that can be compared directly. */
+function sameScenario(a: SimulationResult, b: SimulationResult): boolean {
+  return a.offerId === b.offerId && a.vehicleId === b.vehicleId && a.heatPumpId === b.heatPumpId;
+}
+
+/**
+ * Annual cost from the second year on: virtual battery in steady state and no introductory
+ * promotions. Savings and paybacks use it so an intro discount does not win on its own.
+ */
+function regularAnnualCost(result: SimulationResult): number {
+  return result.totalAnnualCostSteadyState ?? result.totalAnnualCost;
+}
+
+/**
+ * Ranking key: the regular annual cost plus the permanence penalty owed to switch away after the
+ * first year, so an offer that locks the customer in pays for it in the comparison.
+ */
+function rankingCost(result: SimulationResult): number {
+  return regularAnnualCost(result) + result.earlyExitPenalty;
+}
+
+/** Labels of the extra loads simulated on top of the consumption data. */
+function extraLoadLabels(result: SimulationResult): string[] {
+  const labels: string[] = [];
+  if (result.vehicleId !== null) labels.push(`VE: ${result.vehicleName}`);
+  if (result.heatPumpId !== null) labels.push(`Bomba de calor: ${result.heatPumpName}`);
+  return labels;
+}
+
+function formatEuros(value: number): string {
+  return `${value.toLocaleString('es-ES', { maximumFractionDigits: 0 })} €`;
+}
+
+function formatYears(value: number | null): string {
+  return value !== null ? `${value.toFixed(1)} años` : '—';
+}
+
+function ProjectionSummary({ title, projection }: { title: string; projection: FinancialProjection }) {
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        {title}
+      </Typography>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Chip size="small" label={`Inversión: ${formatEuros(projection.investment)}`} />
+        <Chip size="small" color={projection.npv >= 0 ? 'success' : 'error'} label={`VAN: ${formatEuros(projection.npv)}`} />
+        <Chip size="small" label={`TIR: ${projection.irr !== null ? `${(projection.irr * 100).toFixed(1)}%` : '—'}`} />
+        <Chip size="small" label={`ROI: ${(projection.roi * 100).toFixed(0)}%`} />
+        <Chip size="small" label={`Amortización: ${formatYears(projection.paybackYears)}`} />
+        <Chip size="small" label={`Amort. descontada: ${formatYears(projection.discountedPaybackYears)}`} />
+      </Stack>
+    </Box>
+  );
+}
+
+/** True when a payback (null = beyond the horizon) is not reached within the battery's estimated life. */
+function exceedsBatteryLife(paybackYears: number | null, usage: BatteryUsage | null): boolean {
+  if (usage?.yearsToEndOfLife == null) return false;
+  return paybackYears === null || paybackYears > usage.yearsToEndOfLife;
+}
+
+function BatteryUsageSummary({ usage }: { usage: BatteryUsage }) {
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        Uso de la batería
+      </Typography>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        <Chip size="small" label={`Ciclos equivalentes: ${usage.equivalentFullCyclesPerYear.toFixed(0)}/año`} />
+        <Chip size="small" label={`DoD medio: ${(usage.averageDepthOfDischarge * 100).toFixed(0)}%`} />
+        {usage.yearsToEndOfLife !== null && (
+          <Chip
+            size="small"
+            label={`Vida útil estimada: ${formatYears(usage.yearsToEndOfLife)} (${
+              usage.limitedBy === 'cycles' ? 'por ciclos' : 'por calendario'
+            })`}
+          />
+        )}
+        {usage.capacityFadePercentPerYear !== null && (
+          <Chip size="small" label={`Pérdida de capacidad ≈ ${usage.capacityFadePercentPerYear.toFixed(1)}%/año`} />
+        )}
+      </Stack>
+    </Box>
+  );
 }
 
 function ResultRow({
   result,
   rank,
   showVirtualBattery,
-  paybackYears,
+  showSystemPayback,
+  projection,
+  systemProjection,
+  batteryUsage,
+  projectionYears,
+  offer,
 }: {
   result: SimulationResult;
   rank: number;
   showVirtualBattery: boolean;
-  paybackYears: number | null;
+  showSystemPayback: boolean;
+  projection: FinancialProjection | null;
+  systemProjection: FinancialProjection | null;
+  batteryUsage: BatteryUsage | null;
+  projectionYears: number;
+  offer: CompanyOffer | undefined;
 }) {
+  const batteryPaybackTooLong = !!projection && exceedsBatteryLife(projection.discountedPaybackYears, batteryUsage);
+  const systemPaybackTooLong =
+    !!systemProjection && exceedsBatteryLife(systemProjection.discountedPaybackYears, batteryUsage);
+  const lifeWarning = batteryUsage?.yearsToEndOfLife != null
+    ? `Supera la vida útil estimada de la batería (${formatYears(batteryUsage.yearsToEndOfLife)})`
+    : '';
   const [open, setOpen] = useState(false);
   const hasVirtualBattery = result.monthlyBreakdown.some((mb) => mb.virtualBatteryBalance > 0 || mb.virtualBatteryDepositedEuros > 0);
+  const hasExcessPower = result.monthlyBreakdown.some((mb) => mb.excessPower > 0);
+  const hasBonoSocial = result.monthlyBreakdown.some((mb) => mb.bonoSocialDiscount > 0);
+  const hasPromotion = result.monthlyBreakdown.some((mb) => mb.promotionDiscount > 0);
 
   return (
     <>
@@ -57,12 +180,41 @@ function ResultRow({
           <Typography variant="caption" color="text.secondary">
             {result.companyName}
           </Typography>
+          {result.vehicleId !== null && (
+            <Typography variant="caption" color="text.secondary" display="block">
+              VE: {result.vehicleName} ({result.totalEvCharge.toFixed(0)} kWh)
+            </Typography>
+          )}
+          {result.heatPumpId !== null && (
+            <Typography variant="caption" color="text.secondary" display="block">
+              Bomba de calor: {result.heatPumpName} ({result.totalHeatPumpLoad.toFixed(0)} kWh)
+            </Typography>
+          )}
+          {offer?.promotion && (
+            <Typography variant="caption" color="info.main" display="block">
+              {describePromotion(offer.promotion).join(' · ')}
+            </Typography>
+          )}
         </TableCell>
         <TableCell>
           {result.batteryName}
-          {paybackYears !== null && (
-            <Typography variant="caption" color="text.secondary" sx={{ ml: 0.5 }}>
-              ({paybackYears.toFixed(1)} años)
+          {projection && (
+            <Tooltip title={batteryPaybackTooLong ? lifeWarning : ''}>
+              <Typography
+                variant="caption"
+                color={batteryPaybackTooLong ? 'warning.main' : 'text.secondary'}
+                sx={{ ml: 0.5 }}
+              >
+                ({projection.discountedPaybackYears !== null
+                  ? `${projection.discountedPaybackYears.toFixed(1)} años`
+                  : `>${projectionYears} años`}
+                {batteryPaybackTooLong && ' ⚠'})
+              </Typography>
+            </Tooltip>
+          )}
+          {result.batteryId !== null && (
+            <Typography variant="caption" color="text.secondary" display="block">
+              {result.strategyName}
             </Typography>
           )}
         </TableCell>
@@ -73,6 +225,11 @@ function ResultRow({
               ({result.totalAnnualCostSteadyState.toFixed(2)} €)
             </Typography>
           )}
+          {result.earlyExitPenalty > 0 && (
+            <Typography variant="caption" color="warning.main" display="block">
+              +{result.earlyExitPenalty.toFixed(2)} € si cambias tras el 1.er año
+            </Typography>
+          )}
         </TableCell>
         <TableCell align="right">{result.totalConsumption.toFixed(0)} kWh</TableCell>
         <TableCell align="right">{result.totalSolarProduction.toFixed(0)} kWh</TableCell>
@@ -87,6 +244,19 @@ function ResultRow({
             }
           />
         </TableCell>
+        {showSystemPayback && (
+          <TableCell
+            align="right"
+            sx={{ whiteSpace: 'nowrap', color: systemPaybackTooLong ? 'warning.main' : undefined }}
+          >
+            <Tooltip title={systemPaybackTooLong ? lifeWarning : ''}>
+              <span>
+                {systemProjection ? formatYears(systemProjection.discountedPaybackYears) : '—'}
+                {systemPaybackTooLong && ' ⚠'}
+              </span>
+            </Tooltip>
+          </TableCell>
+        )}
         {showVirtualBattery && (
           <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
             {result.virtualBatteryBalance.toFixed(2)} €
@@ -99,7 +269,10 @@ function ResultRow({
         )}
       </TableRow>
       <TableRow>
-        <TableCell colSpan={showVirtualBattery ? 11 : 10} sx={{ py: 0, borderBottom: open ? undefined : 'none' }}>
+        <TableCell
+          colSpan={10 + (showVirtualBattery ? 1 : 0) + (showSystemPayback ? 1 : 0)}
+          sx={{ py: 0, borderBottom: open ? undefined : 'none' }}
+        >
           <Collapse in={open} timeout="auto" unmountOnExit>
             <Box sx={{ py: 2 }}>
               <Typography variant="subtitle2" gutterBottom>
@@ -114,8 +287,11 @@ function ResultRow({
                       <TableCell align="right">Compensación</TableCell>
                       <TableCell align="right">Potencia</TableCell>
                       <TableCell align="right">Contador</TableCell>
+                      {hasExcessPower && <TableCell align="right">Excesos pot.</TableCell>}
+                      {hasBonoSocial && <TableCell align="right">Bono social</TableCell>}
+                      {hasPromotion && <TableCell align="right">Promoción</TableCell>}
                       <TableCell align="right">Imp. eléctrico</TableCell>
-                      <TableCell align="right">IVA</TableCell>
+                      <TableCell align="right">{getRegion(result.region).indirectTaxName}</TableCell>
                       <TableCell align="right">
                         Total
                         <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 0.5, fontStyle: 'italic' }}>
@@ -143,6 +319,15 @@ function ResultRow({
                         </TableCell>
                         <TableCell align="right">{mb.powerTerm.toFixed(2)} €</TableCell>
                         <TableCell align="right">{mb.meterRental.toFixed(2)} €</TableCell>
+                        {hasExcessPower && <TableCell align="right">{mb.excessPower.toFixed(2)} €</TableCell>}
+                        {hasBonoSocial && (
+                          <TableCell align="right">-{mb.bonoSocialDiscount.toFixed(2)} €</TableCell>
+                        )}
+                        {hasPromotion && (
+                          <TableCell align="right">
+                            {mb.promotionDiscount >= 0.005 ? `-${mb.promotionDiscount.toFixed(2)} €` : '—'}
+                          </TableCell>
+                        )}
                         <TableCell align="right">{mb.electricityTax.toFixed(2)} €</TableCell>
                         <TableCell align="right">{mb.iva.toFixed(2)} €</TableCell>
                         <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
@@ -169,10 +354,56 @@ function ResultRow({
                   </TableBody>
                 </Table>
               </TableContainer>
+              {result.totalInverterClipping > 0.5 && (
+                <Typography variant="body2" color="warning.main" sx={{ mt: 1 }}>
+                  Recorte del inversor: {result.totalInverterClipping.toFixed(0)} kWh perdidos (
+                  {(
+                    (result.totalInverterClipping / (result.totalSolarProduction + result.totalInverterClipping)) *
+                    100
+                  ).toFixed(1)}
+                  % de la producción DC)
+                </Typography>
+              )}
+              {result.totalCurtailed > 0.5 && (
+                <Typography variant="body2" color="warning.main" sx={{ mt: 1 }}>
+                  Límite de inyección: {result.totalCurtailed.toFixed(0)} kWh de excedentes recortados (
+                  {((result.totalCurtailed / result.totalSolarProduction) * 100).toFixed(1)}% de la producción)
+                </Typography>
+              )}
+              {result.heatPumpId !== null && result.totalHeatPumpLoad > 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Bomba de calor: {result.totalHeatPumpLoad.toFixed(0)} kWh eléctricos para{' '}
+                  {result.totalHeatPumpThermal.toFixed(0)} kWh de calefacción y ACS
+                  {result.avoidedGasCost !== null &&
+                    ` · gas evitado: ${formatEuros(result.avoidedGasCost)} (no incluido en el coste anual)`}
+                </Typography>
+              )}
+              {offer && <ContractedPowerAnalysis result={result} offer={offer} />}
+              {systemProjection && (
+                <ProjectionSummary
+                  title={`Rentabilidad de la instalación completa frente a sin solar (${projectionYears} años)`}
+                  projection={systemProjection}
+                />
+              )}
+              {projection && (
+                <ProjectionSummary title={`Rentabilidad de la batería (${projectionYears} años)`} projection={projection} />
+              )}
+              {batteryUsage && <BatteryUsageSummary usage={batteryUsage} />}
+              {(batteryPaybackTooLong || systemPaybackTooLong) && (
+                <Typography variant="body2" color="warning.main" sx={{ mt: 1 }}>
+                  La amortización {batteryPaybackTooLong ? 'de la batería' : 'de la instalación'} no se alcanza
+                  dentro de la vida útil estimada de la batería ({formatYears(batteryUsage!.yearsToEndOfLife)}):
+                  habría que sustituirla antes de recuperar la inversión.
+                </Typography>
+              )}
               <Box sx={{ mt: 2 }}>
                 <EnergyFlowChart
                   hourlyResults={result.hourlyResults}
-                  title={`${result.offerName} - ${result.batteryName}`}
+                  title={[
+                    result.offerName,
+                    `${result.batteryName}${result.batteryId !== null ? ` (${result.strategyName})` : ''}`,
+                    ...extraLoadLabels(result),
+                  ].join(' - ')}
                 />
               </Box>
             </Box>
@@ -183,44 +414,220 @@ function ResultRow({
   );
 }
 
-function computePayback(
+function computeBatteryProjection(
   result: SimulationResult,
   allResults: SimulationResult[],
   batteries: Battery[],
-): number | null {
+  installations: SolarInstallation[],
+  settings: ProjectionSettings,
+  usage: BatteryUsage | null,
+): FinancialProjection | null {
   if (result.batteryId === null) return null;
 
   const battery = batteries.find((b) => b.id === result.batteryId);
   if (!battery?.priceEur) return null;
 
-  // Baseline: same offer, same installation, no battery
+  // Baseline: same offer and extra loads, same installation, no battery
   const baseline = allResults.find(
-    (r) => r.offerId === result.offerId &&
+    (r) => sameScenario(r, result) &&
       r.installationId === result.installationId &&
       r.batteryId === null,
   );
   if (!baseline) return null;
 
-  const resultCost = result.totalAnnualCostSteadyState ?? result.totalAnnualCost;
-  const baselineCost = baseline.totalAnnualCostSteadyState ?? baseline.totalAnnualCost;
-  const annualSavings = baselineCost - resultCost;
+  const annualSavings = regularAnnualCost(baseline) - regularAnnualCost(result);
   if (annualSavings <= 0) return null;
 
-  return battery.priceEur / annualSavings;
+  const installation = installations.find((i) => i.id === result.installationId);
+  return projectBatteryInvestment(annualSavings, battery, installation, settings, usage);
+}
+
+function CostCell({ result }: { result: SimulationResult | undefined }) {
+  if (!result) return <TableCell align="right">—</TableCell>;
+  return (
+    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+      {result.totalAnnualCost.toFixed(2)} €
+      {result.totalAnnualCostSteadyState !== undefined && (
+        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 0.5, fontStyle: 'italic' }}>
+          ({result.totalAnnualCostSteadyState.toFixed(2)} €)
+        </Typography>
+      )}
+    </TableCell>
+  );
+}
+
+/**
+ * Savings at the regular cost (from year 2 on), like the paybacks; the first-year savings, with
+ * promotions and an empty virtual battery, are shown underneath when they differ.
+ */
+function SavingsCell({ from, to }: { from: SimulationResult | undefined; to: SimulationResult | undefined }) {
+  if (!from || !to) return <TableCell align="right">—</TableCell>;
+  const regularFrom = regularAnnualCost(from);
+  const savings = regularFrom - regularAnnualCost(to);
+  const firstYearSavings = from.totalAnnualCost - to.totalAnnualCost;
+  return (
+    <TableCell align="right" sx={{ whiteSpace: 'nowrap', color: savings > 0 ? 'success.main' : undefined }}>
+      {savings.toFixed(2)} €
+      {regularFrom > 0 && (
+        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 0.5 }}>
+          ({((savings / regularFrom) * 100).toFixed(0)}%)
+        </Typography>
+      )}
+      {Math.abs(firstYearSavings - savings) >= 0.01 && (
+        <Typography component="div" variant="caption" color="text.secondary">
+          1.er año: {firstYearSavings.toFixed(2)} €
+        </Typography>
+      )}
+    </TableCell>
+  );
+}
+
+/** Per-offer bill without panels, with panels, and with panels plus the best battery. */
+function OfferSummaryTable({
+  results,
+  baselineResults,
+}: {
+  results: SimulationResult[];
+  baselineResults: SimulationResult[];
+}) {
+  const rows = baselineResults.map((baseline) => {
+    const offerResults = results.filter((r) => sameScenario(r, baseline));
+    const withSolar = offerResults.find((r) => r.batteryId === null);
+    const withBattery = offerResults
+      .filter((r) => r.batteryId !== null)
+      .sort((a, b) => rankingCost(a) - rankingCost(b))[0];
+    return { baseline, withSolar, withBattery };
+  });
+  const anyHasBattery = rows.some((r) => r.withBattery);
+
+  return (
+    <TableContainer component={Paper}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Oferta</TableCell>
+            <TableCell align="right">Sin solar</TableCell>
+            <TableCell align="right">Con solar</TableCell>
+            {anyHasBattery && <TableCell align="right">Con solar + batería</TableCell>}
+            <TableCell align="right">Ahorro solar</TableCell>
+            {anyHasBattery && <TableCell align="right">Ahorro solar + batería</TableCell>}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(({ baseline, withSolar, withBattery }) => (
+            <TableRow key={getResultKey(baseline)} hover>
+              <TableCell>
+                <Typography variant="body2" fontWeight={600}>
+                  {baseline.offerName}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {baseline.companyName}
+                  {extraLoadLabels(baseline).map((label) => ` · ${label}`)}
+                </Typography>
+              </TableCell>
+              <CostCell result={baseline} />
+              <CostCell result={withSolar} />
+              {anyHasBattery && (
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  {withBattery ? (
+                    <>
+                      {withBattery.totalAnnualCost.toFixed(2)} €
+                      <Typography component="div" variant="caption" color="text.secondary">
+                        {withBattery.batteryName} · {withBattery.strategyName}
+                      </Typography>
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </TableCell>
+              )}
+              <SavingsCell from={baseline} to={withSolar} />
+              {anyHasBattery && <SavingsCell from={baseline} to={withBattery} />}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
+
+function computeSystemProjection(
+  result: SimulationResult,
+  allResults: SimulationResult[],
+  baselineResults: SimulationResult[],
+  batteries: Battery[],
+  installations: SolarInstallation[],
+  settings: ProjectionSettings,
+  batteryUsage: BatteryUsage | null,
+): FinancialProjection | null {
+  const installation = installations.find((i) => i.id === result.installationId);
+  if (!installation?.costs) return null;
+
+  const baseline = baselineResults.find((r) => sameScenario(r, result));
+  const withSolar = result.batteryId === null
+    ? result
+    : allResults.find((r) => sameScenario(r, result) && r.batteryId === null);
+  if (!baseline || !withSolar) return null;
+
+  const battery = result.batteryId !== null ? batteries.find((b) => b.id === result.batteryId) : undefined;
+
+  return projectSystemInvestment(
+    {
+      baseline: regularAnnualCost(baseline),
+      withSolar: regularAnnualCost(withSolar),
+      withBattery: battery ? regularAnnualCost(result) : undefined,
+    },
+    installation,
+    installation.costs,
+    battery,
+    settings,
+    batteryUsage,
+  );
 }
 
-export default function SimulationResults({ results, batteries }: Props) {
+export default function SimulationResults({ results, baselineResults, batteries, installations, offers }: Props) {
   const [chartYear, setChartYear] = useState<1 | 2>(1);
+  const [projectionSettings, setProjectionSettings] = useState<ProjectionSettings>(DEFAULT_PROJECTION_SETTINGS);
   const anyHasSteadyState = results.some((r) => r.totalAnnualCostSteadyState !== undefined);
 
-  const sorted = [...results].sort((a, b) => a.totalAnnualCost - b.totalAnnualCost);
+  const sorted = [...results].sort((a, b) => rankingCost(a) - rankingCost(b));
   const anyHasVirtualBattery = sorted.some((r) => r.virtualBatteryBalance > 0 ||
     r.monthlyBreakdown.some((mb) => mb.virtualBatteryDepositedEuros > 0));
 
-  const paybackMap = new Map(
-    sorted.map((r) => [`${r.offerId}-${r.batteryId}`, computePayback(r, sorted, batteries)]),
+  const batteryUsageMap = new Map(
+    sorted.map((r) => {
+      const battery = r.batteryId !== null ? batteries.find((b) => b.id === r.batteryId) : undefined;
+      return [getResultKey(r), battery ? getBatteryUsage(r.hourlyResults, battery) : null];
+    }),
+  );
+  const projectionMap = new Map(
+    sorted.map((r) => {
+      const usage = batteryUsageMap.get(getResultKey(r)) ?? null;
+      const projection = computeBatteryProjection(r, sorted, batteries, installations, projectionSettings, usage);
+      return [getResultKey(r), projection];
+    }),
   );
-  const anyHasPayback = [...paybackMap.values()].some((v) => v !== null);
+  const systemProjectionMap = new Map(
+    sorted.map((r) => {
+      const usage = batteryUsageMap.get(getResultKey(r)) ?? null;
+      const projection = computeSystemProjection(
+        r,
+        sorted,
+        baselineResults,
+        batteries,
+        installations,
+        projectionSettings,
+        usage,
+      );
+      return [getResultKey(r), projection];
+    }),
+  );
+  const anyHasSystemPayback = [...systemProjectionMap.values()].some((v) => v !== null);
+  const anyHasPayback = [...projectionMap.values()].some((v) => v !== null) || anyHasSystemPayback;
+
+  const installationCosts = installations
+    .filter((i) => i.costs && sorted.some((r) => r.installationId === i.id))
+    .map((i) => ({ installation: i, breakdown: getInstallationCostBreakdown(i, i.costs!) }));
 
   return (
     <Stack spacing={3}>
@@ -242,6 +649,56 @@ export default function SimulationResults({ results, batteries }: Props) {
 
       <CostComparisonChart results={sorted} viewYear={chartYear} />
 
+      {anyHasPayback && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Typography variant="subtitle2">Proyección financiera</Typography>
+          <TextField
+            label="Horizonte (años)"
+            type="number"
+            value={projectionSettings.years}
+            onChange={(e) => setProjectionSettings((prev) => ({ ...prev, years: Math.max(1, +e.target.value) }))}
+            size="small"
+            sx={{ width: 140 }}
+            slotProps={{ htmlInput: { min: 1, max: 40 } }}
+          />
+          <TextField
+            label="Tasa de descuento (%)"
+            type="number"
+            value={projectionSettings.discountRatePercent}
+            onChange={(e) => setProjectionSettings((prev) => ({ ...prev, discountRatePercent: +e.target.value }))}
+            size="small"
+            sx={{ width: 160 }}
+            slotProps={{ htmlInput: { step: 0.5 } }}
+          />
+          <TextField
+            label="Subida anual energía (%)"
+            type="number"
+            value={projectionSettings.energyInflationPercent}
+            onChange={(e) => setProjectionSettings((prev) => ({ ...prev, energyInflationPercent: +e.target.value }))}
+            size="small"
+            sx={{ width: 180 }}
+            slotProps={{ htmlInput: { step: 0.5 } }}
+          />
+          {installationCosts.map(({ installation, breakdown }) => (
+            <Typography key={installation.id} variant="body2" color="text.secondary">
+              {installation.name}: {formatEuros(breakdown.gross)} brutos
+              {' − '}{formatEuros(breakdown.subsidy)} subvención
+              {' − '}{formatEuros(breakdown.irpfDeduction)} IRPF
+              {' = '}<strong>{formatEuros(breakdown.net)}</strong>
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      {baselineResults.length > 0 && (
+        <Box>
+          <Typography variant="subtitle1" gutterBottom>
+            Resumen por oferta
+          </Typography>
+          <OfferSummaryTable results={sorted} baselineResults={baselineResults} />
+        </Box>
+      )}
+
       <TableContainer component={Paper}>
         <Table size="small">
           <TableHead>
@@ -253,7 +710,7 @@ export default function SimulationResults({ results, batteries }: Props) {
                 Batería
                 {anyHasPayback && (
                   <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 0.5 }}>
-                    (años amort.)
+                    (años amort. desc.)
                   </Typography>
                 )}
               </TableCell>
@@ -268,6 +725,7 @@ export default function SimulationResults({ results, batteries }: Props) {
               <TableCell align="right">Red</TableCell>
               <TableCell align="right">Excedente</TableCell>
               <TableCell align="right">Autoconsumo</TableCell>
+              {anyHasSystemPayback && <TableCell align="right">Amort. sistema</TableCell>}
               {anyHasVirtualBattery && (
                 <TableCell align="right">
                   Saldo bat. virtual
@@ -281,11 +739,16 @@ export default function SimulationResults({ results, batteries }: Props) {
           <TableBody>
             {sorted.map((result, i) => (
               <ResultRow
-                key={`${result.offerId}-${result.batteryId}`}
+                key={getResultKey(result)}
                 result={result}
                 rank={i + 1}
                 showVirtualBattery={anyHasVirtualBattery}
-                paybackYears={paybackMap.get(`${result.offerId}-${result.batteryId}`) ?? null}
+                showSystemPayback={anyHasSystemPayback}
+                projection={projectionMap.get(getResultKey(result)) ?? null}
+                systemProjection={systemProjectionMap.get(getResultKey(result)) ?? null}
+                batteryUsage={batteryUsageMap.get(getResultKey(result)) ?? null}
+                projectionYears={projectionSettings.years}
+                offer={offers.find((o) => o.id === result.offerId)}
               />
             ))}
           </TableBody>
@@ -25,6 +25,7 @@ import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import dayjs, { type Dayjs } from 'dayjs';
 import 'dayjs/locale/es';
 import type { HourlySimResult } from '../../utils/billCalculator.ts';
+import { compareIntervals, formatInterval } from '../../utils/timeResolution.ts';
 
 interface Props {
   hourlyResults: HourlySimResult[];
@@ -49,6 +50,9 @@ interface ChartRow {
   Solar: number;
   Red: number;
   Excedente: number;
+  Recortado: number;
+  VE: number;
+  'Bomba calor': number;
   Batería: number;
 }
 
@@ -119,7 +123,7 @@ export default function EnergyFlowChart({ hourlyResults, title }: Props) {
   const { data, isDaily } = useMemo(() => {
     const filtered = hourlyResults
       .filter((h) => h.date >= startDate && h.date <= endDate)
-      .sort((a, b) => a.date.localeCompare(b.date) || a.hour - b.hour);
+      .sort(compareIntervals);
 
     const uniqueDays = new Set(filtered.map((h) => h.date));
     const dayCount = uniqueDays.size;
@@ -140,6 +144,9 @@ export default function EnergyFlowChart({ hourlyResults, title }: Props) {
             Solar: 0,
             Red: 0,
             Excedente: 0,
+            Recortado: 0,
+            VE: 0,
+            'Bomba calor': 0,
             Batería: 0,
           };
           byDay.set(h.date, row);
@@ -148,6 +155,9 @@ export default function EnergyFlowChart({ hourlyResults, title }: Props) {
         row.Solar += h.solarProduction;
         row.Red += h.gridPurchase;
         row.Excedente += h.gridSurplus;
+        row.Recortado += h.curtailed;
+        row.VE += h.evCharge;
+        row['Bomba calor'] += h.heatPumpLoad;
         row.Batería += h.batteryCharge;
       }
       rows = [...byDay.values()].map((r) => ({
@@ -156,17 +166,23 @@ export default function EnergyFlowChart({ hourlyResults, title }: Props) {
         Solar: Math.round(r.Solar * 1000) / 1000,
         Red: Math.round(r.Red * 1000) / 1000,
         Excedente: Math.round(r.Excedente * 1000) / 1000,
+        Recortado: Math.round(r.Recortado * 1000) / 1000,
+        VE: Math.round(r.VE * 1000) / 1000,
+        'Bomba calor': Math.round(r['Bomba calor'] * 1000) / 1000,
         Batería: Math.round(r.Batería * 1000) / 1000,
       }));
     } else {
       rows = filtered.map((h) => ({
-        label: dayCount > 1 ? `${formatDDMM(h.date)} ${h.hour}h` : `${h.hour}h`,
-        tooltipTitle: `${formatDDMMYYYY(h.date)} - ${h.hour}h`,
+        label: dayCount > 1 ? `${formatDDMM(h.date)} ${formatInterval(h)}` : formatInterval(h),
+        tooltipTitle: `${formatDDMMYYYY(h.date)} - ${formatInterval(h)}`,
         _date: h.date,
         Consumo: Math.round(h.consumption * 1000) / 1000,
         Solar: Math.round(h.solarProduction * 1000) / 1000,
         Red: Math.round(h.gridPurchase * 1000) / 1000,
         Excedente: Math.round(h.gridSurplus * 1000) / 1000,
+        Recortado: Math.round(h.curtailed * 1000) / 1000,
+        VE: Math.round(h.evCharge * 1000) / 1000,
+        'Bomba calor': Math.round(h.heatPumpLoad * 1000) / 1000,
         Batería: Math.round(h.batteryCharge * 1000) / 1000,
       }));
     }
@@ -288,6 +304,11 @@ export default function EnergyFlowChart({ hourlyResults, title }: Props) {
     setEndDate(dates[dates.length - 1]);
   }, [dates]);
 
+  // Only show the curtailment series when an export limit actually kicked in
+  const hasCurtailment = useMemo(() => hourlyResults.some((h) => h.curtailed > 0), [hourlyResults]);
+  const hasEvCharge = useMemo(() => hourlyResults.some((h) => h.evCharge > 0), [hourlyResults]);
+  const hasHeatPump = useMemo(() => hourlyResults.some((h) => h.heatPumpLoad > 0), [hourlyResults]);
+
   const isZoomed = startDate !== dates[0] || endDate !== dates[dates.length - 1];
 
   // Normalise ReferenceArea endpoints so x1 comes before x2 in data order
@@ -412,6 +433,37 @@ export default function EnergyFlowChart({ hourlyResults, title }: Props) {
               dot={false}
               isAnimationActive={false}
             />
+            {hasEvCharge && (
+              <Line
+                type="monotone"
+                dataKey="VE"
+                stroke="#00838f"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {hasHeatPump && (
+              <Line
+                type="monotone"
+                dataKey="Bomba calor"
+                stroke="#c2185b"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {hasCurtailment && (
+              <Line
+                type="monotone"
+                dataKey="Recortado"
+                stroke="#757575"
+                strokeWidth={2}
+                strokeDasharray="4 2"
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
             {refLeft && refRight && (
               <ReferenceArea
                 x1={refLeft}
@@ -21,6 +21,12 @@ import {
 import { ExpandMore, Add, Delete, Edit, Close } from '@mui/icons-material';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db, type Battery } from '../../db.ts';
+import { DEFAULT_BATTERY_FADE_PERCENT } from '../../utils/financialProjection.ts';
+import {
+  DEFAULT_END_OF_LIFE_CAPACITY_PERCENT,
+  getChargeEfficiency,
+  getDischargeEfficiency,
+} from '../../utils/battery.ts';
 
 const emptyBattery: Omit<Battery, 'id'> = {
   name: '',
@@ -29,6 +35,80 @@ const emptyBattery: Omit<Battery, 'id'> = {
   roundTripEfficiency: 90,
 };
 
+type AdvancedField =
+  | 'maxChargePowerW'
+  | 'maxDischargePowerW'
+  | 'minSocPercent'
+  | 'selfDischargePercentPerDay'
+  | 'chargeEfficiency'
+  | 'dischargeEfficiency'
+  | 'cycleLife'
+  | 'calendarLifeYears'
+  | 'endOfLifeCapacityPercent';
+
+/** Optional numeric fields of the advanced battery model; empty input clears the value. */
+const ADVANCED_FIELDS: {
+  key: AdvancedField;
+  label: string;
+  step: number;
+  helperText: (form: Omit<Battery, 'id'>) => string;
+}[] = [
+  {
+    key: 'maxChargePowerW',
+    label: 'Potencia máx. carga (W)',
+    step: 100,
+    helperText: (f) => `Por defecto ${f.maxPowerW}`,
+  },
+  {
+    key: 'maxDischargePowerW',
+    label: 'Potencia máx. descarga (W)',
+    step: 100,
+    helperText: (f) => `Por defecto ${f.maxPowerW}`,
+  },
+  {
+    key: 'minSocPercent',
+    label: 'SoC mínimo (%)',
+    step: 1,
+    helperText: (f) => `Profundidad de descarga útil: ${100 - (f.minSocPercent ?? 0)}%`,
+  },
+  {
+    key: 'selfDischargePercentPerDay',
+    label: 'Autodescarga (%/día)',
+    step: 0.1,
+    helperText: () => 'Pérdida en reposo',
+  },
+  {
+    key: 'chargeEfficiency',
+    label: 'Eficiencia carga (%)',
+    step: 0.5,
+    helperText: (f) => `Por defecto ${getChargeEfficiency({ ...f, chargeEfficiency: undefined }).toFixed(1)}`,
+  },
+  {
+    key: 'dischargeEfficiency',
+    label: 'Eficiencia descarga (%)',
+    step: 0.5,
+    helperText: (f) => `Por defecto ${getDischargeEfficiency({ ...f, dischargeEfficiency: undefined }).toFixed(1)}`,
+  },
+  {
+    key: 'cycleLife',
+    label: 'Vida útil (ciclos)',
+    step: 500,
+    helperText: () => 'Ciclos completos hasta fin de vida',
+  },
+  {
+    key: 'calendarLifeYears',
+    label: 'Vida útil (años)',
+    step: 1,
+    helperText: () => 'Vida de calendario',
+  },
+  {
+    key: 'endOfLifeCapacityPercent',
+    label: 'Capacidad fin de vida (%)',
+    step: 5,
+    helperText: () => `Por defecto ${DEFAULT_END_OF_LIFE_CAPACITY_PERCENT}`,
+  },
+];
+
 export default function BatteriesPanel() {
   const batteries = useLiveQuery(() => db.batteries.toArray());
   const [open, setOpen] = useState(false);
@@ -101,6 +181,8 @@ export default function BatteriesPanel() {
                       <Chip label={`${bat.capacityKwh} kWh`} size="small" />
                       <Chip label={`${bat.maxPowerW} W`} size="small" />
                       <Chip label={`${bat.roundTripEfficiency}% eff.`} size="small" />
+                      {!!bat.minSocPercent && <Chip label={`DoD ${100 - bat.minSocPercent}%`} size="small" />}
+                      {bat.cycleLife != null && <Chip label={`${bat.cycleLife} ciclos`} size="small" />}
                       {bat.priceEur != null && (
                         <Chip label={`${bat.priceEur.toLocaleString('es-ES')} €`} size="small" />
                       )}
@@ -165,6 +247,39 @@ export default function BatteriesPanel() {
               size="small"
               inputProps={{ min: 0, step: 100 }}
             />
+            <TextField
+              label="Pérdida de capacidad (%/año)"
+              type="number"
+              value={form.annualCapacityFadePercent ?? ''}
+              onChange={(e) =>
+                setForm((prev) => ({
+                  ...prev,
+                  annualCapacityFadePercent: e.target.value === '' ? undefined : +e.target.value,
+                }))
+              }
+              size="small"
+              inputProps={{ min: 0, step: 0.5 }}
+              helperText={`Sin vida útil indicada; por defecto ${DEFAULT_BATTERY_FADE_PERCENT}`}
+            />
+          </Box>
+          <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+            Parámetros avanzados
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            {ADVANCED_FIELDS.map(({ key, label, step, helperText }) => (
+              <TextField
+                key={key}
+                label={label}
+                type="number"
+                value={form[key] ?? ''}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, [key]: e.target.value === '' ? undefined : +e.target.value }))
+                }
+                size="small"
+                inputProps={{ min: 0, step }}
+                helperText={helperText(form)}
+              />
+            ))}
           </Box>
         </DialogContent>
         <DialogActions>
@@ -15,12 +15,169 @@ import {
   Popover,
   Box,
   Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
-import { ExpandMore, UploadFile, Delete, InfoOutlined } from '@mui/icons-material';
+import { ExpandMore, UploadFile, Delete, InfoOutlined, AutoGraph, Close } from '@mui/icons-material';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../../db.ts';
 import { parseConsumptionCSV, getConsumptionStats } from '../../utils/csvParser.ts';
 import { CSV_FORMATS, type CSVFormat } from '../../utils/csvFormats.tsx';
+import { isQuarterHourly } from '../../utils/timeResolution.ts';
+import {
+  HOUSEHOLD_TYPES,
+  SYNTHETIC_FORMAT_ID,
+  generateSyntheticConsumption,
+  getMonthlyTargets,
+  type HouseholdType,
+} from '../../utils/syntheticConsumption.ts';
+import { parseReeProfile } from '../../utils/reeProfiles.ts';
+
+const MONTH_LABELS = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+
+function SyntheticProfileDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const [year, setYear] = useState(new Date().getFullYear() - 1);
+  const [householdType, setHouseholdType] = useState<HouseholdType>('standard');
+  const [annualKwh, setAnnualKwh] = useState(3500);
+  const [monthlyKwh, setMonthlyKwh] = useState<(number | null)[]>(Array(12).fill(null));
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const reeProfile = useLiveQuery(() => db.reeConsumptionProfiles.get(year), [year]);
+
+  const input = { year, householdType, annualKwh, monthlyKwh, reeProfile };
+  const usesBills = monthlyKwh.some((v) => v !== null);
+  const estimatedAnnual = getMonthlyTargets(input).reduce((s, v) => s + v, 0);
+
+  const handleGenerate = async () => {
+    const typeName = HOUSEHOLD_TYPES.find((t) => t.id === householdType)?.name ?? householdType;
+    await db.consumptionData.add({
+      fileName:
+        `Perfil sintético ${year} · ${estimatedAnnual.toFixed(0)} kWh · ${typeName}` +
+        (reeProfile ? ' · REE' : ' · aproximado'),
+      importedAt: new Date().toISOString(),
+      formatId: SYNTHETIC_FORMAT_ID,
+      records: generateSyntheticConsumption(input),
+    });
+    onClose();
+  };
+
+  const handleLoadProfile = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.csv,.txt';
+    fileInput.onchange = async () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      try {
+        const profile = parseReeProfile(await file.text(), file.name, year);
+        await db.reeConsumptionProfiles.put(profile);
+        setYear(profile.year);
+        setProfileError(null);
+      } catch (e) {
+        setProfileError(e instanceof Error ? e.message : 'Error al leer el fichero de REE');
+      }
+    };
+    fileInput.click();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Generar perfil sintético
+        <IconButton onClick={onClose} sx={{ position: 'absolute', right: 8, top: 8 }}>
+          <Close />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Consumo horario de un año completo a partir de los perfiles iniciales de consumo 2.0TD de REE. Úsalo solo
+          cuando no haya datos reales del contador.
+        </Typography>
+        <Alert
+          severity={reeProfile ? 'success' : 'warning'}
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={handleLoadProfile}>
+              Cargar CSV
+            </Button>
+          }
+        >
+          {reeProfile
+            ? `Coeficientes de REE de ${year} (${reeProfile.source})`
+            : `Sin el fichero de perfiles iniciales de REE de ${year} se usa una forma aproximada`}
+        </Alert>
+        {profileError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setProfileError(null)}>
+            {profileError}
+          </Alert>
+        )}
+        <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+          <TextField
+            label="Año"
+            type="number"
+            value={year}
+            onChange={(e) => setYear(+e.target.value)}
+            size="small"
+          />
+          <FormControl size="small">
+            <InputLabel>Tipo de hogar</InputLabel>
+            <Select
+              value={householdType}
+              label="Tipo de hogar"
+              onChange={(e) => setHouseholdType(e.target.value as HouseholdType)}
+            >
+              {HOUSEHOLD_TYPES.map((t) => (
+                <MenuItem key={t.id} value={t.id}>
+                  {t.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="Consumo anual (kWh)"
+            type="number"
+            value={annualKwh}
+            onChange={(e) => setAnnualKwh(+e.target.value)}
+            size="small"
+            disabled={usesBills}
+            helperText={usesBills ? `Estimado de las facturas: ${estimatedAnnual.toFixed(0)} kWh` : undefined}
+            sx={{ gridColumn: '1 / -1' }}
+          />
+        </Box>
+        <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+          Consumos mensuales de facturas (opcional, kWh)
+        </Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: 1 }}>
+          {MONTH_LABELS.map((label, i) => (
+            <TextField
+              key={label}
+              label={label}
+              type="number"
+              value={monthlyKwh[i] ?? ''}
+              onChange={(e) =>
+                setMonthlyKwh((prev) => prev.map((v, mi) => (mi === i ? (e.target.value === '' ? null : +e.target.value) : v)))
+              }
+              size="small"
+              inputProps={{ min: 0 }}
+            />
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" onClick={handleGenerate} disabled={estimatedAnnual <= 0}>
+          Generar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
 
 function FormatInfo({ format }: { format: CSVFormat }) {
   const [anchor, setAnchor] = useState<HTMLButtonElement | null>(null);
@@ -60,6 +217,7 @@ function FormatInfo({ format }: { format: CSVFormat }) {
 export default function ConsumptionPanel() {
   const datasets = useLiveQuery(() => db.consumptionData.toArray());
   const [error, setError] = useState<string | null>(null);
+  const [syntheticOpen, setSyntheticOpen] = useState(false);
 
   const handleUpload = async () => {
     const input = document.createElement('input');
@@ -107,6 +265,17 @@ export default function ConsumptionPanel() {
         >
           Importar CSV
         </Button>
+        <Button
+          variant="outlined"
+          startIcon={<AutoGraph />}
+          onClick={() => setSyntheticOpen(true)}
+          fullWidth
+          size="small"
+          sx={{ mb: 1 }}
+        >
+          Generar perfil sintético
+        </Button>
+        <SyntheticProfileDialog open={syntheticOpen} onClose={() => setSyntheticOpen(false)} />
 
         <Box sx={{ mb: 1 }}>
           <Typography variant="caption" color="text.secondary">
@@ -146,9 +315,13 @@ export default function ConsumptionPanel() {
                   <Stack direction="row" alignItems="center" spacing={0.5} flexWrap="wrap" useFlexGap>
                     {ds.formatId && (
                       <Chip
-                        label={CSV_FORMATS.find((f) => f.id === ds.formatId)?.name ?? ds.formatId}
+                        label={
+                          ds.formatId === SYNTHETIC_FORMAT_ID
+                            ? 'Sintético'
+                            : (CSV_FORMATS.find((f) => f.id === ds.formatId)?.name ?? ds.formatId)
+                        }
                         size="small"
-                        color="secondary"
+                        color={ds.formatId === SYNTHETIC_FORMAT_ID ? 'warning' : 'secondary'}
                         variant="filled"
                         sx={{ height: 18, fontSize: '0.65rem', '& .MuiChip-label': { px: 0.75 } }}
                       />
@@ -159,6 +332,10 @@ export default function ConsumptionPanel() {
                     <Chip label={`${stats.totalKwh.toFixed(0)} kWh`} size="small" />
                     <Chip label={`${stats.days} días`} size="small" />
                     <Chip label={`${stats.avgDailyKwh.toFixed(1)} kWh/día`} size="small" />
+                    {isQuarterHourly(ds.records) && <Chip label="15 min" size="small" color="info" />}
+                    {stats.exportKwh !== null && (
+                      <Chip label={`Vertido ${stats.exportKwh.toFixed(0)} kWh`} size="small" color="success" />
+                    )}
                   </Stack>
                 </Box>
               </ListItem>
@@ -13,6 +13,8 @@ export default function DataManagementPanel() {
         tariffSchedules: await db.tariffSchedules.toArray(),
         companyOffers: await db.companyOffers.toArray(),
         batteries: await db.batteries.toArray(),
+        vehicles: await db.vehicles.toArray(),
+        heatPumps: await db.heatPumps.toArray(),
         consumptionData: await db.consumptionData.toArray(),
         exportedAt: new Date().toISOString(),
       };
@@ -56,6 +58,14 @@ export default function DataManagementPanel() {
           await db.batteries.clear();
           await db.batteries.bulkAdd(data.batteries);
         }
+        if (data.vehicles) {
+          await db.vehicles.clear();
+          await db.vehicles.bulkAdd(data.vehicles);
+        }
+        if (data.heatPumps) {
+          await db.heatPumps.clear();
+          await db.heatPumps.bulkAdd(data.heatPumps);
+        }
         if (data.consumptionData) {
           await db.consumptionData.clear();
           await db.consumptionData.bulkAdd(data.consumptionData);
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import {
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Typography,
+  Button,
+  Box,
+  TextField,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { ExpandMore, Add, Delete, Edit, Close } from '@mui/icons-material';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type HeatPump } from '../../db.ts';
+import { DEFAULT_GAS_BOILER_EFFICIENCY, copAt, formatCopCurve, parseCopCurve } from '../../utils/heatPump.ts';
+
+const emptyHeatPump: Omit<HeatPump, 'id'> = {
+  name: '',
+  heatLossWPerK: 200,
+  heatingBalanceTempC: 16,
+  copCurve: [
+    { outdoorTempC: -7, cop: 2.5 },
+    { outdoorTempC: 2, cop: 3.2 },
+    { outdoorTempC: 7, cop: 4 },
+    { outdoorTempC: 12, cop: 4.6 },
+  ],
+  coolingEer: 3.5,
+};
+
+type OptionalField = 'coolingBalanceTempC' | 'dhwKwhPerDay' | 'gasPriceEurPerKwh' | 'gasBoilerEfficiency';
+
+/** Optional numeric fields; empty input clears the value. */
+const OPTIONAL_FIELDS: { key: OptionalField; label: string; step: number; helperText: string }[] = [
+  {
+    key: 'coolingBalanceTempC',
+    label: 'Temp. base refrigeración (°C)',
+    step: 0.5,
+    helperText: 'Vacío = sin refrigeración',
+  },
+  { key: 'dhwKwhPerDay', label: 'ACS (kWh térmicos/día)', step: 0.5, helperText: 'Agua caliente sanitaria' },
+  { key: 'gasPriceEurPerKwh', label: 'Precio gas (€/kWh)', step: 0.001, helperText: 'Para estimar el gas evitado' },
+  {
+    key: 'gasBoilerEfficiency',
+    label: 'Rendimiento caldera (%)',
+    step: 1,
+    helperText: `Por defecto ${DEFAULT_GAS_BOILER_EFFICIENCY}`,
+  },
+];
+
+export default function HeatPumpsPanel() {
+  const heatPumps = useLiveQuery(() => db.heatPumps.toArray());
+  const [open, setOpen] = useState(false);
+  const [editId, setEditId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyHeatPump);
+
+  const handleOpen = (heatPump?: HeatPump) => {
+    if (heatPump) {
+      setEditId(heatPump.id!);
+      setForm({ ...heatPump });
+    } else {
+      setEditId(null);
+      setForm({ ...emptyHeatPump });
+    }
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (editId) {
+      await db.heatPumps.update(editId, form);
+    } else {
+      await db.heatPumps.add(form as HeatPump);
+    }
+    setOpen(false);
+  };
+
+  const handleDelete = async (id: number) => {
+    await db.heatPumps.delete(id);
+  };
+
+  return (
+    <>
+      <Accordion>
+        <AccordionSummary expandIcon={<ExpandMore />}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Bombas de calor
+          </Typography>
+        </AccordionSummary>
+        <AccordionDetails>
+          <Button
+            variant="outlined"
+            startIcon={<Add />}
+            onClick={() => handleOpen()}
+            fullWidth
+            size="small"
+            sx={{ mb: 1 }}
+          >
+            Nueva Bomba de calor
+          </Button>
+          <List dense disablePadding>
+            {heatPumps?.map((hp) => (
+              <ListItem
+                key={hp.id}
+                secondaryAction={
+                  <Stack direction="row" spacing={0}>
+                    <IconButton size="small" onClick={() => handleOpen(hp)}>
+                      <Edit fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleDelete(hp.id!)}>
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </Stack>
+                }
+                sx={{ pl: 0 }}
+              >
+                <ListItemText
+                  primary={hp.name}
+                  secondary={
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      <Chip label={`${hp.heatLossWPerK} W/K`} size="small" />
+                      <Chip label={`COP ${copAt(hp.copCurve, 7).toFixed(1)} a 7 °C`} size="small" />
+                      {hp.coolingBalanceTempC !== undefined && <Chip label="Refrigeración" size="small" />}
+                    </Stack>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        </AccordionDetails>
+      </Accordion>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editId ? 'Editar' : 'Nueva'} Bomba de calor
+          <IconButton onClick={() => setOpen(false)} sx={{ position: 'absolute', right: 8, top: 8 }}>
+            <Close />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            La demanda se calcula cada hora con la temperatura exterior de PVGIS de la instalación seleccionada.
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mt: 1 }}>
+            <TextField
+              label="Nombre"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              size="small"
+              sx={{ gridColumn: '1 / -1' }}
+            />
+            <TextField
+              label="Pérdidas del edificio (W/K)"
+              type="number"
+              value={form.heatLossWPerK}
+              onChange={(e) => setForm((prev) => ({ ...prev, heatLossWPerK: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 0, step: 10 }}
+              helperText="Coeficiente UA de la vivienda"
+            />
+            <TextField
+              label="Temp. base calefacción (°C)"
+              type="number"
+              value={form.heatingBalanceTempC}
+              onChange={(e) => setForm((prev) => ({ ...prev, heatingBalanceTempC: +e.target.value }))}
+              size="small"
+              inputProps={{ step: 0.5 }}
+            />
+            <TextField
+              key={`cop-${formatCopCurve(form.copCurve)}`}
+              label="Curva COP (°C:COP)"
+              defaultValue={formatCopCurve(form.copCurve)}
+              onBlur={(e) => setForm((prev) => ({ ...prev, copCurve: parseCopCurve(e.target.value) }))}
+              size="small"
+              placeholder="-7:2.5, 2:3.2, 7:4, 12:4.6"
+              sx={{ gridColumn: '1 / -1' }}
+            />
+            <TextField
+              label="EER refrigeración"
+              type="number"
+              value={form.coolingEer}
+              onChange={(e) => setForm((prev) => ({ ...prev, coolingEer: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 1, step: 0.1 }}
+            />
+            {OPTIONAL_FIELDS.map(({ key, label, step, helperText }) => (
+              <TextField
+                key={key}
+                label={label}
+                type="number"
+                value={form[key] ?? ''}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, [key]: e.target.value === '' ? undefined : +e.target.value }))
+                }
+                size="small"
+                inputProps={{ step }}
+                helperText={helperText}
+              />
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!form.name || form.copCurve.length === 0}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
@@ -23,10 +23,31 @@ import {
   InputLabel,
   Select,
   MenuItem,
+  Alert,
+  Tooltip,
 } from '@mui/material';
-import { ExpandMore, Add, Delete, Edit, Close } from '@mui/icons-material';
+import { ExpandMore, Add, Delete, Edit, Close, Upload } from '@mui/icons-material';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db, getScheduleSlotNames, getPowerScheduleSlotNames, type CompanyOffer, type TariffSchedule } from '../../db.ts';
+import {
+  db,
+  getScheduleSlotNames,
+  getPowerScheduleSlotNames,
+  type BonoSocialConfig,
+  type CompanyOffer,
+  type ExcessPowerMetering,
+  type IndexedPricing,
+  type OfferPromotion,
+  type SurplusPricing,
+  type SurplusPricingMode,
+  type TariffRegion,
+  type TariffSchedule,
+} from '../../db.ts';
+import { getRegion, REGIONS } from '../../utils/regions.ts';
+import { DEFAULT_EXCESS_POWER_PRICE, defaultExcessPowerMetering } from '../../utils/billCalculator.ts';
+import { BONO_SOCIAL_CATEGORIES, BONO_SOCIAL_HOUSEHOLDS, DEFAULT_BONO_SOCIAL } from '../../utils/bonoSocial.ts';
+import { DEFAULT_INDEXED_PRICING } from '../../utils/marketPrices.ts';
+import { DEFAULT_PROMOTION } from '../../utils/promotions.ts';
+import { importCnmcOffers } from '../../utils/cnmcImport.ts';
 
 const emptyOffer: Omit<CompanyOffer, 'id'> = {
   name: '',
@@ -129,6 +150,142 @@ function contractedPowerFields(
   ));
 }
 
+function indexedPricingFields(
+  schedule: TariffSchedule | undefined,
+  pricing: IndexedPricing,
+  update: (patch: Partial<IndexedPricing>) => void,
+) {
+  const slotNames = schedule ? getScheduleSlotNames(schedule) : [];
+  return (
+    <>
+      <TextField
+        label="Ajustes sobre mercado (€/kWh)"
+        type="number"
+        value={pricing.marketAdderPerKwh}
+        onChange={(e) => update({ marketAdderPerKwh: +e.target.value })}
+        size="small"
+        slotProps={{ htmlInput: { step: 0.001 } }}
+        helperText="Servicios de ajuste, desvíos…"
+      />
+      <TextField
+        label="Pérdidas (%)"
+        type="number"
+        value={pricing.lossesPercent}
+        onChange={(e) => update({ lossesPercent: +e.target.value })}
+        size="small"
+        slotProps={{ htmlInput: { step: 0.1 } }}
+      />
+      <TextField
+        label="Margen (€/kWh)"
+        type="number"
+        value={pricing.marginPerKwh}
+        onChange={(e) => update({ marginPerKwh: +e.target.value })}
+        size="small"
+        slotProps={{ htmlInput: { step: 0.001 } }}
+      />
+      {slotNames.map((name) => (
+        <TextField
+          key={`toll-${name}`}
+          label={
+            slotNames.length === 1
+              ? 'Peajes y cargos (€/kWh)'
+              : `Peajes ${name.charAt(0).toUpperCase() + name.slice(1)} (€/kWh)`
+          }
+          type="number"
+          value={pricing.tollsPerKwh[name] ?? ''}
+          onChange={(e) => update({ tollsPerKwh: { ...pricing.tollsPerKwh, [name]: +e.target.value } })}
+          size="small"
+          slotProps={{ htmlInput: { step: 0.001 } }}
+        />
+      ))}
+    </>
+  );
+}
+
+const SURPLUS_PRICING_MODES: { id: SurplusPricingMode; name: string }[] = [
+  { id: 'fixed', name: 'Fijo' },
+  { id: 'period', name: 'Por periodo' },
+  { id: 'pvpc', name: 'PVPC (REE)' },
+  { id: 'indexed', name: 'Mercado con descuento' },
+];
+
+function surplusPriceFields(
+  schedule: TariffSchedule | undefined,
+  form: Omit<CompanyOffer, 'id'>,
+  setForm: React.Dispatch<React.SetStateAction<Omit<CompanyOffer, 'id'>>>,
+) {
+  const pricing = form.surplusPricing;
+  const updatePricing = (patch: Partial<SurplusPricing>) =>
+    setForm((prev) => ({ ...prev, surplusPricing: { ...prev.surplusPricing!, ...patch } }));
+
+  switch (pricing?.mode) {
+    case 'period': {
+      const slotNames = schedule ? getScheduleSlotNames(schedule) : [];
+      const prices = pricing.pricesPerPeriod ?? {};
+      return slotNames.map((name) => (
+        <TextField
+          key={`surplus-${name}`}
+          label={
+            slotNames.length === 1
+              ? 'Compensación (€/kWh)'
+              : `Compensación ${name.charAt(0).toUpperCase() + name.slice(1)} (€/kWh)`
+          }
+          type="number"
+          value={prices[name] ?? ''}
+          onChange={(e) => updatePricing({ pricesPerPeriod: { ...prices, [name]: +e.target.value } })}
+          size="small"
+          slotProps={{ htmlInput: { step: 0.001 } }}
+        />
+      ));
+    }
+
+    case 'pvpc':
+      return (
+        <Typography variant="body2" color="text.secondary">
+          Precio horario de excedentes del PVPC publicado por REE; los días sin publicar se aproximan con OMIE menos
+          desvíos.
+        </Typography>
+      );
+
+    case 'indexed':
+      return (
+        <TextField
+          label="Descuento sobre OMIE (€/kWh)"
+          type="number"
+          value={pricing.discountPerKwh ?? 0}
+          onChange={(e) => updatePricing({ discountPerKwh: +e.target.value })}
+          size="small"
+          slotProps={{ htmlInput: { step: 0.001 } }}
+        />
+      );
+
+    default:
+      return (
+        <TextField
+          label="Compensación excedentes (€/kWh)"
+          type="number"
+          value={form.surplusCompensationPerKwh}
+          onChange={(e) => setForm((prev) => ({ ...prev, surplusCompensationPerKwh: +e.target.value }))}
+          size="small"
+          slotProps={{ htmlInput: { step: 0.001 } }}
+        />
+      );
+  }
+}
+
+/** Excess-power metering and price to keep when the power schedule changes: only 3.0TD bills excesos. */
+function excessPowerForSchedule(
+  schedule: TariffSchedule,
+  current: Pick<CompanyOffer, 'excessPowerMetering' | 'excessPowerPricePerKw'>,
+  contractedPowerKw: CompanyOffer['contractedPowerKw'],
+): Pick<CompanyOffer, 'excessPowerMetering' | 'excessPowerPricePerKw'> {
+  if (schedule.type !== '3.0TD') return { excessPowerMetering: undefined, excessPowerPricePerKw: undefined };
+  return {
+    excessPowerMetering: current.excessPowerMetering ?? defaultExcessPowerMetering(contractedPowerKw),
+    excessPowerPricePerKw: current.excessPowerPricePerKw ?? DEFAULT_EXCESS_POWER_PRICE,
+  };
+}
+
 /** Initialize price records with slot names from the schedule */
 function initPricesForSchedule(schedule: TariffSchedule, currentPrices: Record<string, number>): Record<string, number> {
   const slotNames = getScheduleSlotNames(schedule);
@@ -168,6 +325,9 @@ export default function OffersPanel() {
   const [open, setOpen] = useState(false);
   const [editId, setEditId] = useState<number | null>(null);
   const [form, setForm] = useState(emptyOffer);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'warning' | 'error'; text: string } | null>(
+    null,
+  );
 
   const handleOpen = (offer?: CompanyOffer) => {
     if (offer) {
@@ -187,14 +347,43 @@ export default function OffersPanel() {
   };
 
   const handleSave = async () => {
+    // Saving from the editor means the offer has been checked
+    const offer = { ...form, needsReview: undefined };
+    const powerSchedule = schedules?.find((s) => s.id === (form.powerTariffScheduleId || form.tariffScheduleId));
+    if (powerSchedule) Object.assign(offer, excessPowerForSchedule(powerSchedule, form, form.contractedPowerKw));
     if (editId) {
-      await db.companyOffers.update(editId, form);
+      await db.companyOffers.update(editId, offer);
     } else {
-      await db.companyOffers.add(form as CompanyOffer);
+      await db.companyOffers.add(offer as CompanyOffer);
     }
     setOpen(false);
   };
 
+  const handleImportCnmc = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,.csv';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        const result = await importCnmcOffers(await file.text());
+        setImportMessage({
+          type: result.needsReview > 0 ? 'warning' : 'success',
+          text:
+            `${result.imported} ofertas importadas con el horario "${result.scheduleName}"` +
+            (result.needsReview > 0 ? `; ${result.needsReview} necesitan revisión manual` : '') +
+            (result.skipped > 0 ? `; ${result.skipped} de otros peajes (3.0TD, 6.xTD) no se importan` : '') +
+            (result.duplicates > 0 ? `; ${result.duplicates} ya estaban guardadas` : '') +
+            '. Revisa la potencia contratada.',
+        });
+      } catch (e) {
+        setImportMessage({ type: 'error', text: e instanceof Error ? e.message : 'Error al importar ofertas' });
+      }
+    };
+    input.click();
+  };
+
   const handleDelete = async (id: number) => {
     await db.companyOffers.delete(id);
   };
@@ -210,6 +399,7 @@ export default function OffersPanel() {
       if (!form.powerTariffScheduleId) {
         updates.powerPrices = initPowerPricesForSchedule(schedule, form.powerPrices);
         updates.contractedPowerKw = initContractedPowerForSchedule(schedule, form.contractedPowerKw);
+        Object.assign(updates, excessPowerForSchedule(schedule, form, updates.contractedPowerKw));
       }
       setForm((prev) => ({ ...prev, ...updates }));
     } else {
@@ -220,21 +410,31 @@ export default function OffersPanel() {
   const handlePowerScheduleChange = (scheduleId: number) => {
     const schedule = scheduleId ? schedules?.find((s) => s.id === scheduleId) : undefined;
     if (schedule) {
-      setForm((prev) => ({
-        ...prev,
-        powerTariffScheduleId: scheduleId,
-        powerPrices: initPowerPricesForSchedule(schedule, prev.powerPrices),
-        contractedPowerKw: initContractedPowerForSchedule(schedule, prev.contractedPowerKw),
-      }));
+      setForm((prev) => {
+        const contractedPowerKw = initContractedPowerForSchedule(schedule, prev.contractedPowerKw);
+        return {
+          ...prev,
+          powerTariffScheduleId: scheduleId,
+          powerPrices: initPowerPricesForSchedule(schedule, prev.powerPrices),
+          contractedPowerKw,
+          ...excessPowerForSchedule(schedule, prev, contractedPowerKw),
+        };
+      });
     } else {
       // Reset to follow energy schedule
       const energySchedule = schedules?.find((s) => s.id === form.tariffScheduleId);
-      setForm((prev) => ({
-        ...prev,
-        powerTariffScheduleId: 0,
-        powerPrices: energySchedule ? initPowerPricesForSchedule(energySchedule, prev.powerPrices) : prev.powerPrices,
-        contractedPowerKw: energySchedule ? initContractedPowerForSchedule(energySchedule, prev.contractedPowerKw) : prev.contractedPowerKw,
-      }));
+      setForm((prev) => {
+        const contractedPowerKw = energySchedule
+          ? initContractedPowerForSchedule(energySchedule, prev.contractedPowerKw)
+          : prev.contractedPowerKw;
+        return {
+          ...prev,
+          powerTariffScheduleId: 0,
+          powerPrices: energySchedule ? initPowerPricesForSchedule(energySchedule, prev.powerPrices) : prev.powerPrices,
+          contractedPowerKw,
+          ...(energySchedule ? excessPowerForSchedule(energySchedule, prev, contractedPowerKw) : {}),
+        };
+      });
     }
   };
 
@@ -243,6 +443,37 @@ export default function OffersPanel() {
     ? schedules?.find((s) => s.id === form.powerTariffScheduleId)
     : selectedSchedule;
 
+  const updateIndexedPricing = (patch: Partial<IndexedPricing>) =>
+    setForm((prev) => ({ ...prev, indexedPricing: { ...(prev.indexedPricing ?? DEFAULT_INDEXED_PRICING), ...patch } }));
+
+  const setSurplusPricingMode = (mode: SurplusPricingMode) =>
+    setForm((prev) => ({
+      ...prev,
+      surplusPricing:
+        mode === 'fixed'
+          ? undefined
+          : {
+              mode,
+              // Seed per-period prices with the fixed price so switching modes starts from it
+              pricesPerPeriod:
+                mode === 'period' && selectedSchedule
+                  ? Object.fromEntries(
+                      getScheduleSlotNames(selectedSchedule).map((name) => [
+                        name,
+                        prev.surplusPricing?.pricesPerPeriod?.[name] ?? prev.surplusCompensationPerKwh,
+                      ]),
+                    )
+                  : undefined,
+              discountPerKwh: mode === 'indexed' ? (prev.surplusPricing?.discountPerKwh ?? 0) : undefined,
+            },
+    }));
+
+  const updateBonoSocial = (patch: Partial<BonoSocialConfig>) =>
+    setForm((prev) => ({ ...prev, bonoSocial: { ...(prev.bonoSocial ?? DEFAULT_BONO_SOCIAL), ...patch } }));
+
+  const updatePromotion = (patch: Partial<OfferPromotion>) =>
+    setForm((prev) => ({ ...prev, promotion: { ...(prev.promotion ?? DEFAULT_PROMOTION), ...patch } }));
+
   const scheduleName = (id: number) => schedules?.find((s) => s.id === id)?.name ?? '—';
 
   return (
@@ -264,6 +495,21 @@ export default function OffersPanel() {
           >
             Nueva Oferta
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Upload />}
+            onClick={handleImportCnmc}
+            fullWidth
+            size="small"
+            sx={{ mb: 1 }}
+          >
+            Importar comparador CNMC
+          </Button>
+          {importMessage && (
+            <Alert severity={importMessage.type} sx={{ mb: 1 }} onClose={() => setImportMessage(null)}>
+              {importMessage.text}
+            </Alert>
+          )}
           <List dense disablePadding>
             {offers?.map((offer) => (
               <ListItem
@@ -287,6 +533,16 @@ export default function OffersPanel() {
                       <Chip label={offer.companyName} size="small" />
                       <Chip label={scheduleName(offer.tariffScheduleId)} size="small" />
                       {offer.usePvpcPrices && <Chip label="PVPC" size="small" color="info" />}
+                      {offer.indexedPricing && <Chip label="Indexada" size="small" color="info" />}
+                      {offer.promotion && <Chip label="Promoción" size="small" color="info" />}
+                      {offer.needsReview && (
+                        <Tooltip title={offer.needsReview.join(' · ')}>
+                          <Chip label="Revisar" size="small" color="warning" />
+                        </Tooltip>
+                      )}
+                      {offer.usePvpcPrices && offer.bonoSocial && (
+                        <Chip label={`Bono social ${offer.bonoSocial.discountPercent}%`} size="small" color="info" />
+                      )}
                     </Stack>
                   }
                   slotProps={{ secondary: { component: 'div' } }}
@@ -305,6 +561,11 @@ export default function OffersPanel() {
           </IconButton>
         </DialogTitle>
         <DialogContent>
+          {form.needsReview && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              Oferta importada pendiente de revisión: {form.needsReview.join(' · ')}. Al guardar se da por revisada.
+            </Alert>
+          )}
           <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mt: 1 }}>
             <TextField
               label="Nombre de la oferta"
@@ -349,17 +610,119 @@ export default function OffersPanel() {
                 control={
                   <Switch
                     checked={form.usePvpcPrices ?? false}
-                    onChange={(e) => setForm((prev) => ({ ...prev, usePvpcPrices: e.target.checked }))}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        usePvpcPrices: e.target.checked,
+                        indexedPricing: e.target.checked ? undefined : prev.indexedPricing,
+                      }))
+                    }
                     size="small"
                   />
                 }
                 label="Usar precios PVPC (mercado regulado)"
                 sx={{ gridColumn: '1 / -1' }}
               />
+              {!form.usePvpcPrices && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!form.indexedPricing}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          indexedPricing: e.target.checked ? { ...DEFAULT_INDEXED_PRICING } : undefined,
+                        }))
+                      }
+                      size="small"
+                    />
+                  }
+                  label="Oferta indexada (OMIE + peajes + margen)"
+                  sx={{ gridColumn: '1 / -1' }}
+                />
+              )}
+              {form.usePvpcPrices && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!form.bonoSocial}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          bonoSocial: e.target.checked ? { ...DEFAULT_BONO_SOCIAL } : undefined,
+                        }))
+                      }
+                      size="small"
+                    />
+                  }
+                  label="Bono social"
+                  sx={{ gridColumn: '1 / -1' }}
+                />
+              )}
+              {form.usePvpcPrices && form.bonoSocial && (
+                <>
+                  <TextField
+                    select
+                    label="Categoría"
+                    value={form.bonoSocial.category}
+                    onChange={(e) => {
+                      const category = BONO_SOCIAL_CATEGORIES.find((c) => c.id === e.target.value)!;
+                      updateBonoSocial({ category: category.id, discountPercent: category.discountPercent });
+                    }}
+                    size="small"
+                  >
+                    {BONO_SOCIAL_CATEGORIES.map((c) => (
+                      <MenuItem key={c.id} value={c.id}>
+                        {c.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    label="Descuento (%)"
+                    type="number"
+                    value={form.bonoSocial.discountPercent}
+                    onChange={(e) => updateBonoSocial({ discountPercent: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0, max: 100 } }}
+                  />
+                  <TextField
+                    select
+                    label="Unidad familiar"
+                    value={form.bonoSocial.household}
+                    onChange={(e) => {
+                      const household = BONO_SOCIAL_HOUSEHOLDS.find((h) => h.id === e.target.value)!;
+                      updateBonoSocial({ household: household.id, annualKwhLimit: household.annualKwhLimit });
+                    }}
+                    size="small"
+                  >
+                    {BONO_SOCIAL_HOUSEHOLDS.map((h) => (
+                      <MenuItem key={h.id} value={h.id}>
+                        {h.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    label="Límite anual (kWh)"
+                    type="number"
+                    value={form.bonoSocial.annualKwhLimit}
+                    onChange={(e) => updateBonoSocial({ annualKwhLimit: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0 } }}
+                  />
+                </>
+              )}
               {form.usePvpcPrices ? (
                 <Typography variant="body2" color="text.secondary" sx={{ gridColumn: '1 / -1' }}>
                   Los precios de energía se obtienen automáticamente de REE (apidatos.ree.es)
                 </Typography>
+              ) : form.indexedPricing ? (
+                <>
+                  <Typography variant="body2" color="text.secondary" sx={{ gridColumn: '1 / -1' }}>
+                    Precio = (OMIE + ajustes) × (1 + pérdidas) + peajes y cargos del periodo + margen. El precio
+                    horario de OMIE se obtiene de REE (apidatos.ree.es).
+                  </Typography>
+                  {indexedPricingFields(selectedSchedule, form.indexedPricing, updateIndexedPricing)}
+                </>
               ) : (
                 priceFieldsForSchedule(selectedSchedule, form, setForm)
               )}
@@ -375,13 +738,19 @@ export default function OffersPanel() {
             </Typography>
             <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
               <TextField
-                label="Compensación excedentes (€/kWh)"
-                type="number"
-                value={form.surplusCompensationPerKwh}
-                onChange={(e) => setForm((prev) => ({ ...prev, surplusCompensationPerKwh: +e.target.value }))}
+                select
+                label="Precio de excedentes"
+                value={form.surplusPricing?.mode ?? 'fixed'}
+                onChange={(e) => setSurplusPricingMode(e.target.value as SurplusPricingMode)}
                 size="small"
-                slotProps={{ htmlInput: { step: 0.001 } }}
-              />
+              >
+                {SURPLUS_PRICING_MODES.map((m) => (
+                  <MenuItem key={m.id} value={m.id}>
+                    {m.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              {surplusPriceFields(selectedSchedule, form, setForm)}
               <FormControlLabel
                 control={
                   <Switch
@@ -394,6 +763,17 @@ export default function OffersPanel() {
                 }
                 label="Limitar al coste energético"
               />
+              <TextField
+                label="Límite de inyección (kW)"
+                type="number"
+                value={form.exportLimitKw ?? ''}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, exportLimitKw: e.target.value === '' ? undefined : +e.target.value }))
+                }
+                size="small"
+                slotProps={{ htmlInput: { step: 0.1, min: 0 } }}
+                helperText="Vacío = sin límite, 0 = inyección cero"
+              />
               <FormControlLabel
                 control={
                   <Switch
@@ -448,6 +828,133 @@ export default function OffersPanel() {
               ) : (
                 powerFieldsForSchedule(selectedPowerSchedule, form, setForm)
               )}
+              {selectedPowerSchedule?.type === '3.0TD' && (
+                <TextField
+                  select
+                  label="Control de potencia"
+                  value={form.excessPowerMetering ?? defaultExcessPowerMetering(form.contractedPowerKw)}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, excessPowerMetering: e.target.value as ExcessPowerMetering }))
+                  }
+                  size="small"
+                  sx={{ gridColumn: '1 / -1' }}
+                >
+                  <MenuItem value="quarterHour">Medida cuartohoraria (tipo 1-3, más de 50 kW)</MenuItem>
+                  <MenuItem value="maximeter">Maxímetro (tipo 4, hasta 50 kW)</MenuItem>
+                </TextField>
+              )}
+              {selectedPowerSchedule?.type === '3.0TD' && (
+                <TextField
+                  label="Excesos de potencia, tep (€/kW)"
+                  type="number"
+                  value={form.excessPowerPricePerKw ?? ''}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      excessPowerPricePerKw: e.target.value === '' ? undefined : +e.target.value,
+                    }))
+                  }
+                  size="small"
+                  slotProps={{ htmlInput: { step: 0.0001, min: 0 } }}
+                  helperText={`Por demanda sobre la potencia contratada; regulado ${DEFAULT_EXCESS_POWER_PRICE}`}
+                  sx={{ gridColumn: '1 / -1' }}
+                />
+              )}
+            </Box>
+          </Box>
+
+          <Box
+            component="fieldset"
+            sx={{ mt: 2.5, p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 1, ml: 1.5, mr: 0, mb: 0 }}
+          >
+            <Typography component="legend" variant="caption" color="text.secondary" fontWeight={600} sx={{ px: 0.5 }}>
+              Promoción y permanencia
+            </Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={!!form.promotion}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        promotion: e.target.checked ? { ...DEFAULT_PROMOTION } : undefined,
+                      }))
+                    }
+                    size="small"
+                  />
+                }
+                label="Promociones o permanencia"
+                sx={{ gridColumn: '1 / -1' }}
+              />
+              {form.promotion && (
+                <>
+                  <TextField
+                    label="Precio promocional (€/kWh)"
+                    type="number"
+                    value={form.promotion.promoPricePerKwh ?? ''}
+                    onChange={(e) =>
+                      updatePromotion({ promoPricePerKwh: e.target.value === '' ? undefined : +e.target.value })
+                    }
+                    size="small"
+                    slotProps={{ htmlInput: { step: 0.001, min: 0 } }}
+                    helperText="Todos los periodos; vacío = sin precio promocional"
+                  />
+                  <TextField
+                    label="Meses con precio promocional"
+                    type="number"
+                    value={form.promotion.promoPriceMonths}
+                    onChange={(e) => updatePromotion({ promoPriceMonths: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0, max: 12 } }}
+                  />
+                  <TextField
+                    label="Descuento energía y potencia (%)"
+                    type="number"
+                    value={form.promotion.discountPercent}
+                    onChange={(e) => updatePromotion({ discountPercent: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0, max: 100 } }}
+                  />
+                  <TextField
+                    label="Meses con descuento"
+                    type="number"
+                    value={form.promotion.discountMonths}
+                    onChange={(e) => updatePromotion({ discountMonths: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0, max: 12 } }}
+                  />
+                  <TextField
+                    label="Bono de bienvenida (€)"
+                    type="number"
+                    value={form.promotion.welcomeCredit}
+                    onChange={(e) => updatePromotion({ welcomeCredit: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0 } }}
+                    helperText="Se descuenta de la primera factura"
+                    sx={{ gridColumn: '1 / -1' }}
+                  />
+                  <TextField
+                    label="Permanencia (meses)"
+                    type="number"
+                    value={form.promotion.permanenceMonths}
+                    onChange={(e) => updatePromotion({ permanenceMonths: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0 } }}
+                  />
+                  <TextField
+                    label="Penalización por baja (€)"
+                    type="number"
+                    value={form.promotion.earlyExitPenalty}
+                    onChange={(e) => updatePromotion({ earlyExitPenalty: +e.target.value })}
+                    size="small"
+                    slotProps={{ htmlInput: { step: 1, min: 0 } }}
+                  />
+                  <Typography variant="body2" color="text.secondary" sx={{ gridColumn: '1 / -1' }}>
+                    Las promociones solo se aplican el primer año; el ranking usa el coste a partir del 2.º año.
+                  </Typography>
+                </>
+              )}
             </Box>
           </Box>
 
@@ -459,6 +966,23 @@ export default function OffersPanel() {
               Impuestos y otros
             </Typography>
             <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+              <FormControl size="small" sx={{ gridColumn: '1 / -1' }}>
+                <InputLabel>Región</InputLabel>
+                <Select
+                  value={form.region ?? 'peninsula'}
+                  label="Región"
+                  onChange={(e) => {
+                    const region = getRegion(e.target.value as TariffRegion);
+                    setForm((prev) => ({ ...prev, region: region.id, ivaPercent: region.defaultIndirectTaxPercent }));
+                  }}
+                >
+                  {REGIONS.map((r) => (
+                    <MenuItem key={r.id} value={r.id}>
+                      {r.name} ({r.indirectTaxName})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
               <TextField
                 label="Alquiler contador (€/día)"
                 type="number"
@@ -476,7 +1000,7 @@ export default function OffersPanel() {
                 slotProps={{ htmlInput: { step: 0.1 } }}
               />
               <TextField
-                label="IVA (%)"
+                label={`${getRegion(form.region).indirectTaxName} (%)`}
                 type="number"
                 value={form.ivaPercent}
                 onChange={(e) => setForm((prev) => ({ ...prev, ivaPercent: +e.target.value }))}
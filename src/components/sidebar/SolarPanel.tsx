@@ -21,14 +21,27 @@ import {
   Alert,
   CircularProgress,
   Autocomplete,
+  MenuItem,
 } from '@mui/material';
 import { Search } from '@mui/icons-material';
 import { ExpandMore, Add, Delete, Edit, WbSunny, MyLocation, Close, OpenInFull } from '@mui/icons-material';
 import { useLiveQuery } from 'dexie-react-hooks';
-import { db, type SolarInstallation, type PanelGroup, type Obstacle, type PVGISGroupData } from '../../db.ts';
+import {
+  db,
+  type SolarInstallation,
+  type PanelGroup,
+  type Obstacle,
+  type PVGISGroupData,
+  type InstallationCosts,
+  type Inverter,
+  type TariffRegion,
+} from '../../db.ts';
 import HorizonView from '../HorizonView.tsx';
 import ObstacleMapView from '../ObstacleMapView.tsx';
 import { fetchPVGISData } from '../../utils/pvgis.ts';
+import { DEFAULT_PANEL_DEGRADATION_PERCENT, getInstallationCostBreakdown } from '../../utils/financialProjection.ts';
+import { formatEfficiencyCurve, getDcAcRatio, parseEfficiencyCurve, validateInverters } from '../../utils/inverter.ts';
+import { REGIONS } from '../../utils/regions.ts';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
@@ -74,6 +87,35 @@ const emptyObstacle: Obstacle = {
   distance: 5,
 };
 
+const emptyInverter: Inverter = {
+  name: '',
+  nominalAcPowerW: 6000,
+  mpptInputs: 2,
+};
+
+const emptyCosts: InstallationCosts = {
+  panelsEurPerWp: 0,
+  inverterEur: 0,
+  labourEur: 0,
+  permitsEur: 0,
+  subsidyEur: 0,
+  irpfDeductionPercent: 0,
+  ibiRebateEurPerYear: 0,
+  ibiRebateYears: 0,
+};
+
+const COST_FIELDS: { key: keyof InstallationCosts; label: string; step: number }[] = [
+  { key: 'panelsEurPerWp', label: 'Paneles y estructura (€/Wp)', step: 0.05 },
+  { key: 'inverterEur', label: 'Inversor (€)', step: 50 },
+  { key: 'labourEur', label: 'Mano de obra (€)', step: 50 },
+  { key: 'permitsEur', label: 'Licencias y legalización (€)', step: 50 },
+  { key: 'subsidyEur', label: 'Subvenciones (€)', step: 50 },
+  { key: 'irpfDeductionPercent', label: 'Deducción IRPF (%)', step: 5 },
+  { key: 'irpfDeductionMaxBaseEur', label: 'Base máx. deducción IRPF (€)', step: 500 },
+  { key: 'ibiRebateEurPerYear', label: 'Bonificación IBI (€/año)', step: 10 },
+  { key: 'ibiRebateYears', label: 'Años bonificación IBI', step: 1 },
+];
+
 interface NominatimResult {
   place_id: number;
   display_name: string;
@@ -301,6 +343,17 @@ export default function SolarPanel() {
     );
   };
 
+  const updateCosts = (updates: Partial<InstallationCosts>) => {
+    setForm((prev) => {
+      const costs = { ...(prev.costs ?? emptyCosts), ...updates };
+      // Required fields fall back to 0; only the optional IRPF cap may stay undefined
+      for (const key of Object.keys(emptyCosts) as (keyof InstallationCosts)[]) {
+        if (costs[key] === undefined) costs[key] = 0;
+      }
+      return { ...prev, costs };
+    });
+  };
+
   const updateGroup = (index: number, updates: Partial<PanelGroup>) => {
     setForm((prev) => ({
       ...prev,
@@ -322,6 +375,39 @@ export default function SolarPanel() {
     }));
   };
 
+  const updateInverter = (index: number, updates: Partial<Inverter>) => {
+    setForm((prev) => {
+      const oldName = prev.inverters?.[index]?.name;
+      const renamed = updates.name !== undefined && updates.name !== oldName;
+      return {
+        ...prev,
+        inverters: (prev.inverters ?? []).map((inv, i) => (i === index ? { ...inv, ...updates } : inv)),
+        // Keep group assignments pointing at the renamed inverter
+        panelGroups: renamed
+          ? prev.panelGroups.map((g) => (g.inverterName === oldName ? { ...g, inverterName: updates.name } : g))
+          : prev.panelGroups,
+      };
+    });
+  };
+
+  const addInverter = () => {
+    setForm((prev) => ({
+      ...prev,
+      inverters: [...(prev.inverters ?? []), { ...emptyInverter, name: `Inversor ${(prev.inverters ?? []).length + 1}` }],
+    }));
+  };
+
+  const removeInverter = (index: number) => {
+    setForm((prev) => {
+      const name = prev.inverters?.[index]?.name;
+      return {
+        ...prev,
+        inverters: (prev.inverters ?? []).filter((_, i) => i !== index),
+        panelGroups: prev.panelGroups.map((g) => (g.inverterName === name ? { ...g, inverterName: undefined } : g)),
+      };
+    });
+  };
+
   const updateGroupObstacle = (groupIndex: number, obsIndex: number, updates: Partial<Obstacle>) => {
     setForm((prev) => ({
       ...prev,
@@ -393,6 +479,12 @@ export default function SolarPanel() {
                       <Chip label={`${inst.panelGroups.reduce((s, g) => s + g.peakPowerWp, 0)} Wp`} size="small" />
                       <Chip label={`${inst.panelGroups.reduce((s, g) => s + (g.numPanels ?? 0), 0)} paneles`} size="small" />
                       <Chip label={`${inst.panelGroups.length} grupos`} size="small" />
+                      {(inst.inverters?.length ?? 0) > 0 && (
+                        <Chip
+                          label={`${inst.inverters!.reduce((s, inv) => s + inv.nominalAcPowerW, 0)} W AC`}
+                          size="small"
+                        />
+                      )}
                       {inst.pvgisData && <Chip label="PVGIS OK" size="small" color="success" />}
                     </Stack>
                   }
@@ -510,8 +602,8 @@ export default function SolarPanel() {
                   size="small"
                 />
               </Box>
-              {/* Row 2: elevation, panel dimensions, orientation */}
-              <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: 1, mb: 1 }}>
+              {/* Row 2: elevation, panel dimensions, orientation, degradation, inverter */}
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: 1, mb: 1 }}>
                 <TextField
                   label="Elevación (m)"
                   type="number"
@@ -548,6 +640,32 @@ export default function SolarPanel() {
                   <option value="portrait">Vertical</option>
                   <option value="landscape">Horizontal</option>
                 </TextField>
+                <TextField
+                  label="Degradación (%/año)"
+                  type="number"
+                  value={group.annualDegradationPercent ?? ''}
+                  onChange={(e) =>
+                    updateGroup(gi, { annualDegradationPercent: e.target.value === '' ? undefined : +e.target.value })
+                  }
+                  size="small"
+                  inputProps={{ step: 0.1, min: 0 }}
+                  helperText={`Por defecto ${DEFAULT_PANEL_DEGRADATION_PERCENT}`}
+                />
+                <TextField
+                  label="Inversor"
+                  select
+                  value={group.inverterName ?? ''}
+                  onChange={(e) => updateGroup(gi, { inverterName: e.target.value || undefined })}
+                  size="small"
+                  slotProps={{ select: { native: true } }}
+                >
+                  <option value="">Sin límite</option>
+                  {(form.inverters ?? []).map((inv, ii) => (
+                    <option key={ii} value={inv.name}>
+                      {inv.name}
+                    </option>
+                  ))}
+                </TextField>
               </Box>
 
               <Typography variant="caption" color="text.secondary" sx={{ mt: 1, mb: 0.5, display: 'block' }}>
@@ -697,6 +815,64 @@ export default function SolarPanel() {
             </Typography>
           </Box>
 
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>
+            Inversores
+          </Typography>
+          {(form.inverters ?? []).map((inv, ii) => {
+            const ratio = getDcAcRatio(form, inv);
+            return (
+              <Box
+                key={ii}
+                sx={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr 2fr auto', gap: 1, mb: 1, alignItems: 'start' }}
+              >
+                <TextField
+                  label="Nombre"
+                  value={inv.name}
+                  onChange={(e) => updateInverter(ii, { name: e.target.value })}
+                  size="small"
+                />
+                <TextField
+                  label="Potencia AC (W)"
+                  type="number"
+                  value={inv.nominalAcPowerW}
+                  onChange={(e) => updateInverter(ii, { nominalAcPowerW: +e.target.value })}
+                  size="small"
+                  inputProps={{ step: 100, min: 0 }}
+                  helperText={ratio > 0 ? `DC/AC: ${ratio.toFixed(2)}` : undefined}
+                />
+                <TextField
+                  label="Nº MPPT"
+                  type="number"
+                  value={inv.mpptInputs}
+                  onChange={(e) => updateInverter(ii, { mpptInputs: +e.target.value })}
+                  size="small"
+                  inputProps={{ step: 1, min: 1 }}
+                />
+                <TextField
+                  key={`curve-${ii}-${formatEfficiencyCurve(inv.efficiencyCurve)}`}
+                  label="Curva eficiencia (carga%:ef%)"
+                  defaultValue={formatEfficiencyCurve(inv.efficiencyCurve)}
+                  onBlur={(e) => updateInverter(ii, { efficiencyCurve: parseEfficiencyCurve(e.target.value) })}
+                  size="small"
+                  placeholder="10:94, 20:96, 50:97.5, 100:97"
+                  helperText="Vacío: pérdidas incluidas en PVGIS"
+                />
+                <IconButton size="small" onClick={() => removeInverter(ii)}>
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Box>
+            );
+          })}
+          <Button size="small" onClick={addInverter}>
+            + Añadir inversor
+          </Button>
+          {validateInverters(form).map((err, i) => (
+            <Alert key={i} severity="warning" sx={{ mt: 1 }}>
+              {err}
+            </Alert>
+          ))}
+
           <Divider sx={{ my: 2 }} />
           <TextField
             label="Pérdidas del sistema (%)"
@@ -705,6 +881,61 @@ export default function SolarPanel() {
             onChange={(e) => setForm((prev) => ({ ...prev, systemLoss: +e.target.value }))}
             size="small"
           />
+          <TextField
+            label="Límite de inyección (kW)"
+            type="number"
+            value={form.exportLimitKw ?? ''}
+            onChange={(e) =>
+              setForm((prev) => ({ ...prev, exportLimitKw: e.target.value === '' ? undefined : +e.target.value }))
+            }
+            size="small"
+            sx={{ ml: 1 }}
+            inputProps={{ step: 0.1, min: 0 }}
+            helperText="Vacío = sin límite, 0 = inyección cero"
+          />
+          <TextField
+            select
+            label="Región"
+            value={form.region ?? 'peninsula'}
+            onChange={(e) => setForm((prev) => ({ ...prev, region: e.target.value as TariffRegion }))}
+            size="small"
+            sx={{ ml: 1, minWidth: 200 }}
+            helperText="Horario de periodos e impuesto indirecto"
+          >
+            {REGIONS.map((r) => (
+              <MenuItem key={r.id} value={r.id}>
+                {r.name}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>
+            Costes de la instalación
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 1 }}>
+            {COST_FIELDS.map(({ key, label, step }) => (
+              <TextField
+                key={key}
+                label={label}
+                type="number"
+                value={form.costs?.[key] ?? ''}
+                onChange={(e) => updateCosts({ [key]: e.target.value === '' ? undefined : +e.target.value })}
+                size="small"
+                inputProps={{ step, min: 0 }}
+              />
+            ))}
+          </Box>
+          {form.costs && (() => {
+            const breakdown = getInstallationCostBreakdown(form as SolarInstallation, form.costs);
+            return (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Coste bruto: <strong>{breakdown.gross.toLocaleString('es-ES', { maximumFractionDigits: 0 })} €</strong>
+                {' · '}Neto tras subvenciones y deducciones:{' '}
+                <strong>{breakdown.net.toLocaleString('es-ES', { maximumFractionDigits: 0 })} €</strong>
+              </Typography>
+            );
+          })()}
 
           <Divider sx={{ my: 2 }} />
           <Button
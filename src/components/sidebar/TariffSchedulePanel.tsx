@@ -26,11 +26,13 @@ import {
   FormControlLabel,
   Divider,
   Alert,
+  Autocomplete,
 } from '@mui/material';
 import { ExpandMore, Add, Delete, Edit, Close } from '@mui/icons-material';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db, type TariffSchedule, type TariffType, type DateRange, type TimeSlot } from '../../db.ts';
 import { validateSchedule } from '../../utils/tariffSchedule.ts';
+import { MOVABLE_HOLIDAYS, formatHolidayEntry, parseHolidayEntry } from '../../utils/holidays.ts';
 
 const emptyTimeSlot: TimeSlot = { name: '', startHour: 0, endHour: 24 };
 
@@ -70,6 +72,7 @@ export default function TariffSchedulePanel() {
     const data = { ...form };
     if (data.type !== 'custom') {
       data.dateRanges = undefined;
+      data.holidays = undefined;
     }
     if (editId) {
       await db.tariffSchedules.update(editId, data);
@@ -153,11 +156,18 @@ export default function TariffSchedulePanel() {
   const typeLabel = (type: TariffType) => {
     if (type === 'flat') return 'Plana';
     if (type === '2.0TD') return '2.0TD';
+    if (type === '3.0TD') return '3.0TD';
     return 'Custom';
   };
 
   const validationErrors = useMemo(() => validateSchedule(form), [form]);
 
+  const setHolidays = (values: string[]) => {
+    // Typed text is normalised to the stored form; unrecognised entries are dropped
+    const entries = values.map(parseHolidayEntry).filter((e): e is string => e !== null);
+    setForm((prev) => ({ ...prev, holidays: [...new Set(entries)] }));
+  };
+
   return (
     <>
       <Accordion>
@@ -224,6 +234,7 @@ export default function TariffSchedulePanel() {
               <Select value={form.type} label="Tipo" onChange={(e) => setType(e.target.value as TariffType)}>
                 <MenuItem value="flat">Tarifa plana</MenuItem>
                 <MenuItem value="2.0TD">2.0TD (regulado)</MenuItem>
+                <MenuItem value="3.0TD">3.0TD (regulado, &gt; 15 kW)</MenuItem>
                 <MenuItem value="custom">Personalizado</MenuItem>
               </Select>
             </FormControl>
@@ -238,7 +249,17 @@ export default function TariffSchedulePanel() {
           {form.type === '2.0TD' && (
             <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
               Horario regulado 2.0TD: Punta 10-14h y 18-22h, Llano 8-10h, 14-18h y 22-24h, Valle 0-8h y fines de
-              semana/festivos.
+              semana/festivos nacionales de fecha fija no sustituibles (Viernes Santo y festivos autonómicos no
+              cuentan).
+            </Typography>
+          )}
+
+          {form.type === '3.0TD' && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Horario regulado 3.0TD con seis periodos de energía y potencia: P6 de 0 a 8h, fines de semana y festivos
+              nacionales de fecha fija; el resto del día laborable es P1/P2 (temporada alta), P2/P3 (media-alta), P3/P4
+              (media) o P4/P5 (baja), con el primero de cada par de 9 a 14h y de 18 a 22h en Península. Temporadas y
+              horas por zona según la región de la instalación.
             </Typography>
           )}
 
@@ -386,6 +407,31 @@ export default function TariffSchedulePanel() {
               <Button variant="outlined" size="small" startIcon={<Add />} onClick={addDateRange} fullWidth>
                 Añadir periodo de fechas
               </Button>
+
+              <Autocomplete
+                multiple
+                freeSolo
+                options={MOVABLE_HOLIDAYS.map((h) => h.id)}
+                value={form.holidays ?? []}
+                onChange={(_, values) => setHolidays(values)}
+                getOptionLabel={formatHolidayEntry}
+                size="small"
+                sx={{ mt: 2 }}
+                renderValue={(values, getItemProps) =>
+                  values.map((entry, index) => {
+                    const { key, ...itemProps } = getItemProps({ index });
+                    return <Chip key={key} label={formatHolidayEntry(entry)} size="small" {...itemProps} />;
+                  })
+                }
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Festivos regionales y locales"
+                    placeholder="DD/MM, DD/MM/AAAA o festivo móvil"
+                    helperText="Se suman a los festivos nacionales (incluido Viernes Santo). Pulsa Intro para añadir."
+                  />
+                )}
+              />
             </Box>
           )}
         </DialogContent>
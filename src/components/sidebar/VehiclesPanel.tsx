@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import {
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Typography,
+  Button,
+  Box,
+  TextField,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  Stack,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { ExpandMore, Add, Delete, Edit, Close } from '@mui/icons-material';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db, type EvChargingMode, type Vehicle } from '../../db.ts';
+import { EV_CHARGING_MODES, WEEKDAY_LABELS } from '../../utils/evLoad.ts';
+
+const emptyVehicle: Omit<Vehicle, 'id'> = {
+  name: '',
+  consumptionKwhPer100Km: 16,
+  chargerPowerW: 7400,
+  chargingEfficiency: 90,
+  dailyKm: [40, 40, 40, 40, 40, 0, 0],
+  arrivalHour: 19,
+  departureHour: 8,
+  chargingMode: 'valle',
+};
+
+export default function VehiclesPanel() {
+  const vehicles = useLiveQuery(() => db.vehicles.toArray());
+  const [open, setOpen] = useState(false);
+  const [editId, setEditId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyVehicle);
+
+  const handleOpen = (vehicle?: Vehicle) => {
+    if (vehicle) {
+      setEditId(vehicle.id!);
+      setForm({ ...vehicle });
+    } else {
+      setEditId(null);
+      setForm({ ...emptyVehicle });
+    }
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (editId) {
+      await db.vehicles.update(editId, form);
+    } else {
+      await db.vehicles.add(form as Vehicle);
+    }
+    setOpen(false);
+  };
+
+  const handleDelete = async (id: number) => {
+    await db.vehicles.delete(id);
+  };
+
+  const updateDailyKm = (index: number, km: number) => {
+    setForm((prev) => ({ ...prev, dailyKm: prev.dailyKm.map((v, i) => (i === index ? km : v)) }));
+  };
+
+  const weeklyKm = form.dailyKm.reduce((s, km) => s + km, 0);
+
+  return (
+    <>
+      <Accordion>
+        <AccordionSummary expandIcon={<ExpandMore />}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Vehículos eléctricos
+          </Typography>
+        </AccordionSummary>
+        <AccordionDetails>
+          <Button
+            variant="outlined"
+            startIcon={<Add />}
+            onClick={() => handleOpen()}
+            fullWidth
+            size="small"
+            sx={{ mb: 1 }}
+          >
+            Nuevo Vehículo
+          </Button>
+          <List dense disablePadding>
+            {vehicles?.map((v) => (
+              <ListItem
+                key={v.id}
+                secondaryAction={
+                  <Stack direction="row" spacing={0}>
+                    <IconButton size="small" onClick={() => handleOpen(v)}>
+                      <Edit fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleDelete(v.id!)}>
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </Stack>
+                }
+                sx={{ pl: 0 }}
+              >
+                <ListItemText
+                  primary={v.name}
+                  secondary={
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      <Chip label={`${v.dailyKm.reduce((s, km) => s + km, 0)} km/sem`} size="small" />
+                      <Chip label={`${v.chargerPowerW} W`} size="small" />
+                      <Chip
+                        label={EV_CHARGING_MODES.find((m) => m.id === v.chargingMode)?.name ?? v.chargingMode}
+                        size="small"
+                      />
+                    </Stack>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        </AccordionDetails>
+      </Accordion>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editId ? 'Editar' : 'Nuevo'} Vehículo
+          <IconButton onClick={() => setOpen(false)} sx={{ position: 'absolute', right: 8, top: 8 }}>
+            <Close />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2, mt: 1 }}>
+            <TextField
+              label="Nombre"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              size="small"
+              sx={{ gridColumn: '1 / -1' }}
+            />
+            <TextField
+              label="Consumo (kWh/100 km)"
+              type="number"
+              value={form.consumptionKwhPer100Km}
+              onChange={(e) => setForm((prev) => ({ ...prev, consumptionKwhPer100Km: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 0, step: 0.5 }}
+            />
+            <TextField
+              label="Potencia cargador (W)"
+              type="number"
+              value={form.chargerPowerW}
+              onChange={(e) => setForm((prev) => ({ ...prev, chargerPowerW: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 0, step: 100 }}
+            />
+            <TextField
+              label="Eficiencia de carga (%)"
+              type="number"
+              value={form.chargingEfficiency}
+              onChange={(e) => setForm((prev) => ({ ...prev, chargingEfficiency: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 1, max: 100 }}
+            />
+            <FormControl size="small">
+              <InputLabel>Modo de carga</InputLabel>
+              <Select
+                value={form.chargingMode}
+                label="Modo de carga"
+                onChange={(e) => setForm((prev) => ({ ...prev, chargingMode: e.target.value as EvChargingMode }))}
+              >
+                {EV_CHARGING_MODES.map((m) => (
+                  <MenuItem key={m.id} value={m.id}>
+                    {m.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="Hora de llegada"
+              type="number"
+              value={form.arrivalHour}
+              onChange={(e) => setForm((prev) => ({ ...prev, arrivalHour: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 0, max: 23 }}
+            />
+            <TextField
+              label="Hora de salida"
+              type="number"
+              value={form.departureHour}
+              onChange={(e) => setForm((prev) => ({ ...prev, departureHour: +e.target.value }))}
+              size="small"
+              inputProps={{ min: 0, max: 23 }}
+              helperText={form.arrivalHour === form.departureHour ? 'Siempre en casa' : undefined}
+            />
+          </Box>
+          <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+            Kilómetros por día ({weeklyKm} km/semana)
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: 1 }}>
+            {WEEKDAY_LABELS.map((label, i) => (
+              <TextField
+                key={label}
+                label={label}
+                type="number"
+                value={form.dailyKm[i] ?? 0}
+                onChange={(e) => updateDailyKm(i, +e.target.value)}
+                size="small"
+                inputProps={{ min: 0 }}
+              />
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!form.name}>
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import Dexie, { type Table } from 'dexie';
+import { hoursInDay } from './utils/timezone.ts';
 
 export type ObstacleDirection = 'north' | 'south' | 'east' | 'west';
 
@@ -36,6 +37,29 @@ export interface PanelGroup {
   panelWidthCm?: number;
   /** Physical panel height in cm (long side when portrait, along the panel surface). */
   panelHeightCm?: number;
+  /** Annual output degradation in % per year (typ. 0.4-0.7). Used for multi-year projections. */
+  annualDegradationPercent?: number;
+  /** Name of the installation inverter this group is wired to. Unassigned groups are never clipped. */
+  inverterName?: string;
+}
+
+export interface InverterEfficiencyPoint {
+  /** Load as % of nominal AC power. */
+  loadPercent: number;
+  efficiencyPercent: number;
+}
+
+export interface Inverter {
+  name: string;
+  /** Nominal (maximum) AC output power in W. Hourly production above this is clipped. */
+  nominalAcPowerW: number;
+  /** Number of MPPT inputs; each panel group uses one. */
+  mpptInputs: number;
+  /**
+   * Conversion efficiency vs. load. When set, DC→AC losses are modelled with this curve,
+   * so the installation's system loss should not include inverter losses.
+   */
+  efficiencyCurve?: InverterEfficiencyPoint[];
 }
 
 export interface PVGISHourlyRecord {
@@ -65,6 +89,25 @@ export interface PVGISGroupData {
   fetchParams?: PVGISFetchParams;
 }
 
+/** Capital cost of a PV installation, used for full-system payback. */
+export interface InstallationCosts {
+  /** Panels + mounting structure, € per Wp installed. */
+  panelsEurPerWp: number;
+  inverterEur: number;
+  labourEur: number;
+  permitsEur: number;
+  /** Direct subsidies (e.g. Next Generation EU funds), €. */
+  subsidyEur: number;
+  /** IRPF deduction for energy-efficiency works, % of the investment net of subsidies. */
+  irpfDeductionPercent: number;
+  /** Maximum deduction base for IRPF, €. No cap when undefined. */
+  irpfDeductionMaxBaseEur?: number;
+  /** IBI rebate granted by the municipality, € per year. */
+  ibiRebateEurPerYear: number;
+  /** Number of years the IBI rebate applies. */
+  ibiRebateYears: number;
+}
+
 export interface SolarInstallation {
   id?: number;
   name: string;
@@ -73,9 +116,18 @@ export interface SolarInstallation {
   systemLoss: number;
   panelGroups: PanelGroup[];
   pvgisData?: PVGISGroupData[];
+  inverters?: Inverter[];
+  /** Grid injection cap in kW (anti-export device or distributor limit). 0 = zero injection, undefined = no cap. */
+  exportLimitKw?: number;
+  costs?: InstallationCosts;
+  /** Where the supply point is; sets tariff hours and indirect tax. Defaults to 'peninsula'. */
+  region?: TariffRegion;
 }
 
-export type TariffType = 'flat' | '2.0TD' | 'custom';
+/** Peninsula and Balearic Islands share the same rules; the others differ in taxes, hours or clock. */
+export type TariffRegion = 'peninsula' | 'canarias' | 'ceuta' | 'melilla';
+
+export type TariffType = 'flat' | '2.0TD' | '3.0TD' | 'custom';
 
 export interface TimeSlot {
   name: string;
@@ -99,8 +151,19 @@ export interface TariffSchedule {
   name: string;
   type: TariffType;
   dateRanges?: DateRange[]; // only for 'custom'
+  /**
+   * Regional or local holidays on top of the national calendar, only for 'custom':
+   * 'MM-DD' (every year), 'YYYY-MM-DD' or a movable holiday id (see utils/holidays.ts).
+   */
+  holidays?: string[];
 }
 
+/**
+ * Power control of a 3.0TD supply: quarter-hour demand for metering tipo 1-3 (above 50 kW) or a
+ * maximeter for tipo 4 (up to 50 kW). They bill excess power with different formulas.
+ */
+export type ExcessPowerMetering = 'quarterHour' | 'maximeter';
+
 export interface CompanyOffer {
   id?: number;
   name: string;
@@ -109,20 +172,121 @@ export interface CompanyOffer {
   prices: Record<string, number>;
   usePvpcPrices?: boolean;
   surplusCompensationPerKwh: number;
+  /** Time-varying surplus price; undefined = 'fixed' at surplusCompensationPerKwh. */
+  surplusPricing?: SurplusPricing;
   surplusCompensationCapped?: boolean;
+  /** Grid injection cap in kW imposed by the contract. 0 = zero injection, undefined = no cap. */
+  exportLimitKw?: number;
   hasVirtualBattery: boolean;
   virtualBatteryMonthlyFee: number;
   contractedPowerKw: number | Record<string, number>;
   powerTariffScheduleId?: number;
   powerPrices: Record<string, number>;
+  /** How the excesos de potencia term is metered (3.0TD); undefined = no penalty (2.0TD has an ICP). */
+  excessPowerMetering?: ExcessPowerMetering;
+  /** Excess-power price (tep, €/kW) of that term; undefined = the regulated DEFAULT_EXCESS_POWER_PRICE. */
+  excessPowerPricePerKw?: number;
   meterRentalPerDay: number;
   electricityTaxPercent: number;
+  /** Indirect tax rate: IVA, or IGIC/IPSI when the offer's region is Canarias/Ceuta/Melilla. */
   ivaPercent: number;
+  /** Region the offer's prices and tax rate were written for. Defaults to 'peninsula'. */
+  region?: TariffRegion;
+  /** Bono social discount; only applied to PVPC offers (usePvpcPrices). */
+  bonoSocial?: BonoSocialConfig;
+  /** Market-linked ("indexada") pricing; replaces `prices` when set. Not combined with PVPC. */
+  indexedPricing?: IndexedPricing;
+  /** Introductory promotions and permanence; later years are billed at the regular prices. */
+  promotion?: OfferPromotion;
+  /** Why an imported offer needs a manual check (see utils/cnmcImport.ts); cleared when saved. */
+  needsReview?: string[];
+}
+
+/**
+ * Energy price = (market price + marketAdderPerKwh) × (1 + lossesPercent/100)
+ *                + tollsPerKwh[period] + marginPerKwh
+ */
+export interface IndexedPricing {
+  /** Added to the day-ahead price before losses, e.g. ancillary services and deviations (€/kWh). */
+  marketAdderPerKwh: number;
+  /** Grid losses coefficient applied to the market component (%). */
+  lossesPercent: number;
+  /** Tolls and charges (peajes y cargos) per tariff period (€/kWh), keyed like `prices`. */
+  tollsPerKwh: Record<string, number>;
+  /** Retailer margin (€/kWh). */
+  marginPerKwh: number;
+}
+
+/**
+ * How surplus is valued per interval:
+ *   - 'fixed'   surplusCompensationPerKwh for every hour
+ *   - 'period'  pricesPerPeriod[tariff period of the energy schedule]
+ *   - 'pvpc'    regulated PVPC surplus price published by REE (see utils/pvpc.ts)
+ *   - 'indexed' day-ahead market price less discountPerKwh
+ */
+export type SurplusPricingMode = 'fixed' | 'period' | 'pvpc' | 'indexed';
+
+export interface SurplusPricing {
+  mode: SurplusPricingMode;
+  pricesPerPeriod?: Record<string, number>;
+  discountPerKwh?: number;
+}
+
+/**
+ * Contract terms on top of the regular prices. Months count from the first billed month of the
+ * first year; from the second year on the offer is billed at its regular prices.
+ */
+export interface OfferPromotion {
+  /** Energy price (€/kWh, every period) during the first promoPriceMonths. undefined = none. */
+  promoPricePerKwh?: number;
+  promoPriceMonths: number;
+  /** Discount (%) on the energy and power terms during the first discountMonths. */
+  discountPercent: number;
+  discountMonths: number;
+  /** One-off credit (€) deducted before taxes from the first bill. */
+  welcomeCredit: number;
+  /** Minimum stay (months) and the penalty for leaving earlier (€); added to the switching cost in rankings. */
+  permanenceMonths: number;
+  earlyExitPenalty: number;
+}
+
+export type BonoSocialCategory = 'vulnerable' | 'vulnerable-severo';
+
+export type BonoSocialHousehold = 'sin-menores' | 'un-menor' | 'dos-menores' | 'familia-numerosa' | 'pensionistas';
+
+export interface BonoSocialConfig {
+  category: BonoSocialCategory;
+  household: BonoSocialHousehold;
+  /** Discount on the power term and the capped energy term (%), prefilled from the category. */
+  discountPercent: number;
+  /** Consumption per year with discount (kWh), prefilled from the household type. */
+  annualKwhLimit: number;
 }
 
 export interface PvpcDailyPrices {
   date: string;      // YYYY-MM-DD (PK)
-  prices: number[];  // 24 values, index 0-23, in €/kWh
+  prices: number[];  // one value per hour of the local day (24; 23/25 on DST days), in €/kWh
+  /** Quarter-hour values (index = hour × 4 + quarter, both 0-based), when fetched at 15-minute resolution. */
+  quarterPrices?: number[];
+}
+
+/** OMIE day-ahead (spot) price, same layout as PvpcDailyPrices. */
+export type MarketDailyPrices = PvpcDailyPrices;
+
+/** PVPC price of self-consumption surplus (compensación simplificada), same layout as PvpcDailyPrices. */
+export type PvpcSurplusDailyPrices = PvpcDailyPrices;
+
+/**
+ * REE's initial consumption profile (perfil inicial) of 2.0TD supplies for one year, loaded from the
+ * coefficient file REE publishes (see utils/reeProfiles.ts).
+ */
+export interface ReeConsumptionProfile {
+  year: number; // PK
+  /** Name of the file the coefficients came from. */
+  source: string;
+  importedAt: string;
+  /** Share of the annual consumption per hour: date → one value per hour of the local day. */
+  coefficients: Record<string, number[]>;
 }
 
 export interface Battery {
@@ -131,13 +295,86 @@ export interface Battery {
   capacityKwh: number;
   maxPowerW: number;
   roundTripEfficiency: number;
+  /** Minimum state of charge in % (100 − usable depth of discharge). Defaults to 0. */
+  minSocPercent?: number;
+  /** Max charge/discharge power in W when they differ. Default to maxPowerW. */
+  maxChargePowerW?: number;
+  maxDischargePowerW?: number;
+  /** Standby self-discharge in % of stored energy per day. */
+  selfDischargePercentPerDay?: number;
+  /** One-way efficiencies in %. When missing, both default to √roundTripEfficiency. */
+  chargeEfficiency?: number;
+  dischargeEfficiency?: number;
+  /** Rated full cycles until end of life (e.g. 6000 for LFP). */
+  cycleLife?: number;
+  /** Rated calendar life in years, regardless of cycling. */
+  calendarLifeYears?: number;
+  /** Remaining capacity that defines end of life, in %. Defaults to 70. */
+  endOfLifeCapacityPercent?: number;
   priceEur?: number;
+  /**
+   * Annual capacity fade in % per year. Used for multi-year projections when no cycle or calendar
+   * life is rated; otherwise the fade and end of life are estimated from the simulated cycling.
+   */
+  annualCapacityFadePercent?: number;
+}
+
+export type EvChargingMode = 'immediate' | 'valle' | 'solar';
+
+export interface Vehicle {
+  id?: number;
+  name: string;
+  consumptionKwhPer100Km: number;
+  chargerPowerW: number;
+  /** Grid-to-battery charging efficiency in %. */
+  chargingEfficiency: number;
+  /** Kilometres driven each weekday, Monday first (7 values). */
+  dailyKm: number[];
+  /** Clock hour (0-23) the car gets home and is plugged in. */
+  arrivalHour: number;
+  /** Clock hour (0-23) the car leaves. Equal to arrivalHour = always at home. */
+  departureHour: number;
+  chargingMode: EvChargingMode;
+}
+
+export interface CopPoint {
+  outdoorTempC: number;
+  cop: number;
+}
+
+export interface HeatPump {
+  id?: number;
+  name: string;
+  /** Building heat loss coefficient (UA) in W/K. */
+  heatLossWPerK: number;
+  /** Outdoor temperature below which the building needs heating (°C). */
+  heatingBalanceTempC: number;
+  /** Outdoor temperature above which the building needs cooling (°C). Undefined = no cooling. */
+  coolingBalanceTempC?: number;
+  /** Heating COP by outdoor temperature, interpolated linearly. */
+  copCurve: CopPoint[];
+  /** Cooling energy efficiency ratio. */
+  coolingEer: number;
+  /** Domestic hot water demand (thermal kWh/day), spread evenly over the day. */
+  dhwKwhPerDay?: number;
+  /** Gas price (€/kWh) of the heating being replaced, to estimate avoided gas cost. */
+  gasPriceEurPerKwh?: number;
+  /** Efficiency of the gas boiler being replaced, in %. */
+  gasBoilerEfficiency?: number;
 }
 
 export interface ConsumptionRecord {
   date: string;
+  /** Position of the hour in the local day, as in the CSV "Hora": 1-24, or 1-23 / 1-25 on DST days. */
   hour: number;
+  /** 1-4 for 15-minute meter data (see timeResolution.ts); absent for hourly records. */
+  quarter?: number;
+  /** Energy imported from the grid (kWh). */
   kwh: number;
+  /** Measured energy exported to the grid (kWh), from meters of existing self-consumption installations. */
+  exportKwh?: number;
+  /** Measured solar generation (kWh), when the CSV includes it. */
+  generationKwh?: number;
 }
 
 export interface ConsumptionData {
@@ -151,6 +388,7 @@ export interface ConsumptionData {
 export function getScheduleSlotNames(schedule: TariffSchedule): string[] {
   if (schedule.type === 'flat') return ['flat'];
   if (schedule.type === '2.0TD') return ['punta', 'llano', 'valle'];
+  if (schedule.type === '3.0TD') return ['P1', 'P2', 'P3', 'P4', 'P5', 'P6'];
   // custom
   const names = new Set<string>();
   for (const dr of schedule.dateRanges ?? []) {
@@ -164,7 +402,7 @@ export function getScheduleSlotNames(schedule: TariffSchedule): string[] {
   return [...names];
 }
 
-/** Power slot names — for 2.0TD only punta/valle (no llano). */
+/** Power slot names — for 2.0TD only punta/valle (no llano); 3.0TD has the six energy periods. */
 export function getPowerScheduleSlotNames(schedule: TariffSchedule): string[] {
   if (schedule.type === 'flat') return ['flat'];
   if (schedule.type === '2.0TD') return ['punta', 'valle'];
@@ -178,6 +416,11 @@ export class AppDatabase extends Dexie {
   batteries!: Table<Battery, number>;
   consumptionData!: Table<ConsumptionData, number>;
   pvpcPrices!: Table<PvpcDailyPrices, string>;
+  marketPrices!: Table<MarketDailyPrices, string>;
+  pvpcSurplusPrices!: Table<PvpcSurplusDailyPrices, string>;
+  reeConsumptionProfiles!: Table<ReeConsumptionProfile, number>;
+  vehicles!: Table<Vehicle, number>;
+  heatPumps!: Table<HeatPump, number>;
 
   constructor() {
     super('SolarComparatorDB');
@@ -221,6 +464,76 @@ export class AppDatabase extends Dexie {
         if (!ds.formatId) ds.formatId = 'ide';
       }),
     );
+    this.version(6).stores({
+      solarInstallations: '++id, name',
+      tariffSchedules: '++id, name',
+      companyOffers: '++id, name',
+      batteries: '++id, name',
+      consumptionData: '++id, fileName',
+      pvpcPrices: 'date',
+      vehicles: '++id, name',
+    });
+    this.version(7).stores({
+      solarInstallations: '++id, name',
+      tariffSchedules: '++id, name',
+      companyOffers: '++id, name',
+      batteries: '++id, name',
+      consumptionData: '++id, fileName',
+      pvpcPrices: 'date',
+      vehicles: '++id, name',
+      heatPumps: '++id, name',
+    });
+    this.version(8).stores({
+      solarInstallations: '++id, name',
+      tariffSchedules: '++id, name',
+      companyOffers: '++id, name',
+      batteries: '++id, name',
+      consumptionData: '++id, fileName',
+      pvpcPrices: 'date',
+      vehicles: '++id, name',
+      heatPumps: '++id, name',
+      marketPrices: 'date',
+    });
+    this.version(9).stores({
+      solarInstallations: '++id, name',
+      tariffSchedules: '++id, name',
+      companyOffers: '++id, name',
+      batteries: '++id, name',
+      consumptionData: '++id, fileName',
+      pvpcPrices: 'date',
+      vehicles: '++id, name',
+      heatPumps: '++id, name',
+      marketPrices: 'date',
+    }).upgrade((tx) =>
+      // PVPC rows of DST days were cached by clock hour before prices were indexed by day
+      // position; drop them so they are re-fetched
+      tx.table('pvpcPrices').filter((day: PvpcDailyPrices) => hoursInDay(day.date) !== 24).delete(),
+    );
+    this.version(10).stores({
+      solarInstallations: '++id, name',
+      tariffSchedules: '++id, name',
+      companyOffers: '++id, name',
+      batteries: '++id, name',
+      consumptionData: '++id, fileName',
+      pvpcPrices: 'date',
+      vehicles: '++id, name',
+      heatPumps: '++id, name',
+      marketPrices: 'date',
+      pvpcSurplusPrices: 'date',
+    });
+    this.version(11).stores({
+      solarInstallations: '++id, name',
+      tariffSchedules: '++id, name',
+      companyOffers: '++id, name',
+      batteries: '++id, name',
+      consumptionData: '++id, fileName',
+      pvpcPrices: 'date',
+      vehicles: '++id, name',
+      heatPumps: '++id, name',
+      marketPrices: 'date',
+      pvpcSurplusPrices: 'date',
+      reeConsumptionProfiles: 'year',
+    });
   }
 }
 
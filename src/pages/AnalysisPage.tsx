@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import {
   Box,
   Button,
@@ -12,14 +12,33 @@ import {
   CircularProgress,
   Alert,
   Paper,
+  TextField,
+  LinearProgress,
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material';
-import { PlayArrow } from '@mui/icons-material';
+import { PlayArrow, Stop, Tune } from '@mui/icons-material';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db.ts';
-import { runSimulation, type SimulationResult } from '../utils/simulation.ts';
-import { createEnergyPriceResolver } from '../utils/energyPriceResolver.ts';
+import { buildSolarIndex, withoutSolarProduction, type SimulationResult } from '../utils/simulation.ts';
+import {
+  runSimulationPool,
+  SimulationCancelledError,
+  type SimulationJob,
+  type SimulationProgress,
+} from '../utils/simulationPool.ts';
+import { buildTemperatureIndex } from '../utils/heatPump.ts';
+import { createEnergyPriceResolver, createSurplusPriceResolver } from '../utils/energyPriceResolver.ts';
+import { resolveRegion } from '../utils/regions.ts';
+import { ensurePvpcCached, loadPvpcPrices } from '../utils/pvpc.ts';
+import { intervalKey, mergeConsumptionRecords } from '../utils/timeResolution.ts';
+import { calibrateInstallation, hasMeasuredExport, type CalibrationResult } from '../utils/calibration.ts';
+import {
+  BATTERY_STRATEGIES,
+  DEFAULT_BACKUP_RESERVE_PERCENT,
+  type BatteryStrategyId,
+} from '../utils/batteryStrategies.ts';
 import SimulationResults from '../components/SimulationResults.tsx';
+import CalibrationResults from '../components/CalibrationResults.tsx';
 import ConsumptionChart from '../components/charts/ConsumptionChart.tsx';
 
 export default function AnalysisPage() {
@@ -28,14 +47,26 @@ export default function AnalysisPage() {
   const batteries = useLiveQuery(() => db.batteries.toArray());
   const consumptionSets = useLiveQuery(() => db.consumptionData.toArray());
   const tariffSchedules = useLiveQuery(() => db.tariffSchedules.toArray());
+  const vehicles = useLiveQuery(() => db.vehicles.toArray());
+  const heatPumps = useLiveQuery(() => db.heatPumps.toArray());
 
   const [selectedInstallation, setSelectedInstallation] = useState<number | ''>('');
   const [selectedOfferIds, setSelectedOfferIds] = useState<number[]>([]);
   const [selectedBatteryIds, setSelectedBatteryIds] = useState<number[]>([]);
   const [selectedConsumptionIds, setSelectedConsumptionIds] = useState<number[]>([]);
+  const [selectedVehicleIds, setSelectedVehicleIds] = useState<number[]>([0]);
+  const [selectedHeatPumpIds, setSelectedHeatPumpIds] = useState<number[]>([0]);
+  const [selectedStrategyIds, setSelectedStrategyIds] = useState<BatteryStrategyId[]>(['self-consumption']);
+  const [backupReservePercent, setBackupReservePercent] = useState(DEFAULT_BACKUP_RESERVE_PERCENT);
   const [results, setResults] = useState<SimulationResult[] | null>(null);
+  const [baselineResults, setBaselineResults] = useState<SimulationResult[]>([]);
   const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<SimulationProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [calibration, setCalibration] = useState<{ installationName: string; result: CalibrationResult } | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
 
   const handleConsumptionChange = (e: SelectChangeEvent<number[]>) => {
     const value = e.target.value;
@@ -100,15 +131,8 @@ export default function AnalysisPage() {
       return;
     }
 
-    // Merge records from all selected consumption sets, deduplicating by date+hour
-    const recordMap = new Map<string, { date: string; hour: number; kwh: number }>();
-    for (const cs of selectedSets) {
-      for (const r of cs.records) {
-        const key = `${r.date}-${r.hour}`;
-        recordMap.set(key, r);
-      }
-    }
-    const mergedRecords = [...recordMap.values()];
+    // Merge records from all selected consumption sets, deduplicating by interval
+    const mergedRecords = mergeConsumptionRecords(selectedSets.map((cs) => cs.records));
 
     const includeNoBattery = selectedBatteryIds.includes(0);
     const selectedBats = batteries?.filter((b) => selectedBatteryIds.includes(b.id!)) ?? [];
@@ -118,34 +142,121 @@ export default function AnalysisPage() {
       return;
     }
 
+    const includeNoVehicle = selectedVehicleIds.includes(0);
+    const selectedVehicles = [
+      ...(includeNoVehicle ? [null] : []),
+      ...(vehicles?.filter((v) => selectedVehicleIds.includes(v.id!)) ?? []),
+    ];
+    if (selectedVehicles.length === 0) {
+      setError('Selecciona al menos una opción de vehículo eléctrico');
+      return;
+    }
+
+    const selectedHeatPumps = [
+      ...(selectedHeatPumpIds.includes(0) ? [null] : []),
+      ...(heatPumps?.filter((hp) => selectedHeatPumpIds.includes(hp.id!)) ?? []),
+    ];
+    if (selectedHeatPumps.length === 0) {
+      setError('Selecciona al menos una opción de bomba de calor');
+      return;
+    }
+    if (selectedHeatPumps.some((hp) => hp !== null) && !installation.pvgisData?.length) {
+      setError('La bomba de calor necesita la temperatura de PVGIS: obtén los datos de la instalación primero');
+      return;
+    }
+
+    if (selectedBats.length > 0 && selectedStrategyIds.length === 0) {
+      setError('Selecciona al menos una estrategia de batería');
+      return;
+    }
+
     setError(null);
+    setWarnings([]);
     setRunning(true);
 
-    // Run simulations asynchronously
+    // Run simulations in the worker pool
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(null);
     (async () => {
       try {
-        const allResults: SimulationResult[] = [];
+        const noSolarInstallation = withoutSolarProduction(installation);
+        // Built once per installation and shared by every combination
+        const solarIndex = buildSolarIndex(installation);
+        const noSolarIndex = buildSolarIndex(noSolarInstallation);
+        // Computed from the real installation so the no-solar baseline also gets temperatures
+        const temperatureIndex = selectedHeatPumps.some((hp) => hp !== null)
+          ? buildTemperatureIndex(installation)
+          : undefined;
+
+        // PVPC arbitrage ranks hours by PVPC price regardless of the offer's own pricing
+        let pvpcPrices: Map<string, number> | undefined;
+        if (selectedBats.length > 0 && selectedStrategyIds.includes('pvpc-arbitrage')) {
+          const dates = [...new Set(mergedRecords.map((r) => r.date))];
+          await ensurePvpcCached(dates);
+          pvpcPrices = await loadPvpcPrices(dates);
+        }
+        const strategyOptions = { reservePercent: backupReservePercent, pvpcPrices };
+
+        const jobs: SimulationJob[] = [];
+        const isBaseline: boolean[] = [];
+        const addJob = (job: SimulationJob, baseline = false) => {
+          jobs.push(job);
+          isBaseline.push(baseline);
+        };
 
         for (const offer of selectedOffers) {
           const schedule = tariffSchedules?.find((s) => s.id === offer.tariffScheduleId) ?? null;
           const powerSchedule = offer.powerTariffScheduleId
             ? tariffSchedules?.find((s) => s.id === offer.powerTariffScheduleId) ?? schedule
             : schedule;
-          const resolver = createEnergyPriceResolver(offer, schedule);
+          // Prices only depend on the offer, so they are resolved here once (PVPC and OMIE may hit the network)
+          const region = resolveRegion(installation, offer);
+          const prices = await createEnergyPriceResolver(offer, schedule, region)(mergedRecords);
+          const energyPrices = new Map(mergedRecords.map((r, i) => [intervalKey(r), prices[i]]));
+          const surplus = await createSurplusPriceResolver(offer, schedule, region, (message) =>
+            setWarnings((prev) => [...prev, message]),
+          )(mergedRecords);
+          const surplusPrices = new Map(mergedRecords.map((r, i) => [intervalKey(r), surplus[i]]));
+          const common = {
+            consumption: mergedRecords,
+            offer,
+            schedule,
+            powerSchedule,
+            energyPrices,
+            surplusPrices,
+            temperatureIndex,
+          };
 
-          if (includeNoBattery) {
-            allResults.push(await runSimulation(mergedRecords, installation, offer, null, schedule, powerSchedule, resolver));
-          }
+          for (const vehicle of selectedVehicles) {
+            for (const heatPump of selectedHeatPumps) {
+              // PVGIS data stays on the main thread: workers get the production through solarIndex
+              const scenario = { ...common, vehicle, heatPump, installation: noSolarInstallation, solarIndex };
+
+              // "No solar" baseline: what this offer costs without panels
+              addJob({ ...scenario, solarIndex: noSolarIndex, battery: null }, true);
+
+              if (includeNoBattery) addJob({ ...scenario, battery: null });
 
-          for (const bat of selectedBats) {
-            allResults.push(await runSimulation(mergedRecords, installation, offer, bat, schedule, powerSchedule, resolver));
+              for (const bat of selectedBats) {
+                for (const strategyId of selectedStrategyIds) {
+                  addJob({ ...scenario, battery: bat, strategyId, strategyOptions });
+                }
+              }
+            }
           }
         }
 
-        setResults(allResults);
+        setProgress({ completed: 0, total: jobs.length });
+        const allResults = await runSimulationPool(jobs, setProgress, controller.signal);
+        setResults(allResults.filter((_, i) => !isBaseline[i]));
+        setBaselineResults(allResults.filter((_, i) => isBaseline[i]));
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Error durante la simulación');
+        if (err instanceof SimulationCancelledError) setError(err.message);
+        else setError(err instanceof Error ? err.message : 'Error durante la simulación');
       } finally {
+        abortRef.current = null;
+        setProgress(null);
         setRunning(false);
       }
     })();
@@ -153,26 +264,53 @@ export default function AnalysisPage() {
     installations,
     offers,
     batteries,
+    vehicles,
+    heatPumps,
     consumptionSets,
     tariffSchedules,
     selectedInstallation,
     selectedOfferIds,
     selectedBatteryIds,
     selectedConsumptionIds,
+    selectedStrategyIds,
+    selectedVehicleIds,
+    selectedHeatPumpIds,
+    backupReservePercent,
   ]);
 
   const selectedConsumptionRecords = (() => {
     if (!consumptionSets || selectedConsumptionIds.length === 0) return null;
     const sets = consumptionSets.filter((c) => selectedConsumptionIds.includes(c.id!));
-    const recordMap = new Map<string, { date: string; hour: number; kwh: number }>();
-    for (const cs of sets) {
-      for (const r of cs.records) {
-        recordMap.set(`${r.date}-${r.hour}`, r);
-      }
-    }
-    return [...recordMap.values()];
+    return mergeConsumptionRecords(sets.map((cs) => cs.records));
   })();
 
+  const canCalibrate = !!selectedConsumptionRecords && hasMeasuredExport(selectedConsumptionRecords);
+  const handleCalibrate = async () => {
+    const installation = installations?.find((i) => i.id === selectedInstallation);
+    if (!selectedConsumptionRecords || !installation) {
+      setError('Selecciona una instalación solar');
+      return;
+    }
+    // The offer only matters for its export limit
+    const offer = offers?.find((o) => selectedOfferIds.includes(o.id!));
+    if (!offer) {
+      setError('Selecciona al menos una oferta');
+      return;
+    }
+    const schedule = tariffSchedules?.find((s) => s.id === offer.tariffScheduleId) ?? null;
+
+    setError(null);
+    setCalibrating(true);
+    try {
+      const result = await calibrateInstallation(selectedConsumptionRecords, installation, offer, schedule);
+      setCalibration({ installationName: installation.name, result });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error durante la calibración');
+    } finally {
+      setCalibrating(false);
+    }
+  };
+
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h5" gutterBottom>
@@ -271,6 +409,95 @@ export default function AnalysisPage() {
               ))}
             </Select>
           </FormControl>
+
+          <FormControl size="small" fullWidth>
+            <InputLabel>Vehículo eléctrico</InputLabel>
+            <Select
+              multiple
+              value={selectedVehicleIds}
+              label="Vehículo eléctrico"
+              onChange={(e) => setSelectedVehicleIds(e.target.value as number[])}
+              renderValue={(selected) => {
+                const parts: string[] = [];
+                if (selected.includes(0)) parts.push('Sin VE');
+                const count = selected.filter((id) => id !== 0).length;
+                if (count > 0) parts.push(`${count} vehículo${count > 1 ? 's' : ''}`);
+                return parts.join(', ') || 'Ninguno';
+              }}
+            >
+              <MenuItem value={0}>
+                <Checkbox checked={selectedVehicleIds.includes(0)} />
+                <ListItemText primary="Sin VE" />
+              </MenuItem>
+              {vehicles?.map((v) => (
+                <MenuItem key={v.id} value={v.id}>
+                  <Checkbox checked={selectedVehicleIds.includes(v.id!)} />
+                  <ListItemText primary={v.name} />
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" fullWidth>
+            <InputLabel>Bomba de calor</InputLabel>
+            <Select
+              multiple
+              value={selectedHeatPumpIds}
+              label="Bomba de calor"
+              onChange={(e) => setSelectedHeatPumpIds(e.target.value as number[])}
+              renderValue={(selected) => {
+                const parts: string[] = [];
+                if (selected.includes(0)) parts.push('Sin bomba de calor');
+                const count = selected.filter((id) => id !== 0).length;
+                if (count > 0) parts.push(`${count} bomba${count > 1 ? 's' : ''}`);
+                return parts.join(', ') || 'Ninguna';
+              }}
+            >
+              <MenuItem value={0}>
+                <Checkbox checked={selectedHeatPumpIds.includes(0)} />
+                <ListItemText primary="Sin bomba de calor" />
+              </MenuItem>
+              {heatPumps?.map((hp) => (
+                <MenuItem key={hp.id} value={hp.id}>
+                  <Checkbox checked={selectedHeatPumpIds.includes(hp.id!)} />
+                  <ListItemText primary={hp.name} />
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" fullWidth>
+            <InputLabel>Estrategias de batería</InputLabel>
+            <Select
+              multiple
+              value={selectedStrategyIds}
+              label="Estrategias de batería"
+              onChange={(e) => setSelectedStrategyIds(e.target.value as BatteryStrategyId[])}
+              renderValue={(selected) =>
+                selected.length === 1
+                  ? BATTERY_STRATEGIES.find((s) => s.id === selected[0])?.name
+                  : `${selected.length} estrategias`
+              }
+            >
+              {BATTERY_STRATEGIES.map((s) => (
+                <MenuItem key={s.id} value={s.id}>
+                  <Checkbox checked={selectedStrategyIds.includes(s.id)} />
+                  <ListItemText primary={s.name} secondary={s.description} />
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {selectedStrategyIds.includes('backup-reserve') && (
+            <TextField
+              label="Reserva de respaldo (%)"
+              type="number"
+              value={backupReservePercent}
+              onChange={(e) => setBackupReservePercent(+e.target.value)}
+              size="small"
+              slotProps={{ htmlInput: { min: 0, max: 100, step: 5 } }}
+            />
+          )}
         </Box>
 
         <Button
@@ -282,6 +509,39 @@ export default function AnalysisPage() {
         >
           {running ? 'Simulando...' : 'Ejecutar Simulación'}
         </Button>
+        {running && (
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<Stop />}
+            onClick={() => abortRef.current?.abort()}
+            size="large"
+            sx={{ ml: 2 }}
+          >
+            Cancelar
+          </Button>
+        )}
+        {canCalibrate && (
+          <Button
+            variant="outlined"
+            startIcon={calibrating ? <CircularProgress size={16} /> : <Tune />}
+            onClick={handleCalibrate}
+            disabled={calibrating}
+            size="large"
+            sx={{ ml: 2 }}
+          >
+            Calibrar con datos medidos
+          </Button>
+        )}
+        {progress && (
+          <Box sx={{ mt: 2 }}>
+            <LinearProgress variant="determinate" value={(progress.completed / progress.total) * 100} />
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+              {progress.completed} de {progress.total} combinaciones completadas ·{' '}
+              {progress.total - progress.completed} restantes
+            </Typography>
+          </Box>
+        )}
       </Paper>
 
       {error && (
@@ -290,6 +550,17 @@ export default function AnalysisPage() {
         </Alert>
       )}
 
+      {warnings.map((warning) => (
+        <Alert
+          key={warning}
+          severity="warning"
+          sx={{ mb: 2 }}
+          onClose={() => setWarnings((prev) => prev.filter((w) => w !== warning))}
+        >
+          {warning}
+        </Alert>
+      ))}
+
       {selectedConsumptionRecords && (
         <Paper sx={{ p: 2, mb: 3 }}>
           <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1.5, mb: 1 }}>
@@ -305,7 +576,19 @@ export default function AnalysisPage() {
         </Paper>
       )}
 
-      {results && <SimulationResults results={results} batteries={batteries ?? []} />}
+      {calibration && (
+        <CalibrationResults calibration={calibration.result} installationName={calibration.installationName} />
+      )}
+
+      {results && (
+        <SimulationResults
+          results={results}
+          baselineResults={baselineResults}
+          batteries={batteries ?? []}
+          installations={installations ?? []}
+          offers={offers ?? []}
+        />
+      )}
     </Box>
   );
 }
@@ -0,0 +1,103 @@
+import type { Battery } from '../db.ts';
+import type { HourlySimResult } from './billCalculator.ts';
+
+/** Battery parameters with defaults applied, in the units used by the hourly simulation. */
+export interface BatteryParams {
+  capacityKwh: number;
+  /** Stored energy that discharging never goes below (kWh). */
+  minLevelKwh: number;
+  maxChargeKw: number;
+  maxDischargeKw: number;
+  /** One-way efficiencies (0-1): AC in → stored, stored → AC out. */
+  chargeEfficiency: number;
+  dischargeEfficiency: number;
+  /** Fraction of stored energy kept after one hour on standby. */
+  hourlyRetention: number;
+}
+
+export function getChargeEfficiency(battery: Battery): number {
+  return battery.chargeEfficiency ?? Math.sqrt(battery.roundTripEfficiency / 100) * 100;
+}
+
+export function getDischargeEfficiency(battery: Battery): number {
+  return battery.dischargeEfficiency ?? Math.sqrt(battery.roundTripEfficiency / 100) * 100;
+}
+
+export function getBatteryParams(battery: Battery): BatteryParams {
+  const dailyLoss = (battery.selfDischargePercentPerDay ?? 0) / 100;
+  return {
+    capacityKwh: battery.capacityKwh,
+    minLevelKwh: (battery.capacityKwh * (battery.minSocPercent ?? 0)) / 100,
+    maxChargeKw: (battery.maxChargePowerW ?? battery.maxPowerW) / 1000,
+    maxDischargeKw: (battery.maxDischargePowerW ?? battery.maxPowerW) / 1000,
+    chargeEfficiency: getChargeEfficiency(battery) / 100,
+    dischargeEfficiency: getDischargeEfficiency(battery) / 100,
+    hourlyRetention: Math.pow(1 - dailyLoss, 1 / 24),
+  };
+}
+
+export const DEFAULT_END_OF_LIFE_CAPACITY_PERCENT = 70;
+
+export interface BatteryUsage {
+  /** Discharged energy over nominal capacity, annualised to 365 days. */
+  equivalentFullCyclesPerYear: number;
+  /** Mean depth of the discharge episodes (fraction of capacity). */
+  averageDepthOfDischarge: number;
+  /** Estimated years until end-of-life capacity, or null if the battery has no life rating. */
+  yearsToEndOfLife: number | null;
+  /** Which rating reaches end of life first. */
+  limitedBy: 'cycles' | 'calendar' | null;
+  /** Implied linear capacity loss (%/year) down to the end-of-life capacity. */
+  capacityFadePercentPerYear: number | null;
+}
+
+/**
+ * Cycle statistics from the simulated hourly series. A discharge episode runs from the
+ * last charging hour to the next one; its depth is the drop in stored energy.
+ * Life is whichever comes first of the cycle rating (at the simulated cycling rate) and the
+ * calendar rating — both are quoted by manufacturers down to the same end-of-life capacity.
+ */
+export function getBatteryUsage(
+  hourlyResults: Pick<HourlySimResult, 'date' | 'batteryCharge' | 'batteryLevel'>[],
+  battery: Battery,
+): BatteryUsage {
+  const days = new Set(hourlyResults.map((h) => h.date)).size;
+  const discharged = hourlyResults.reduce((s, h) => s + Math.max(0, -h.batteryCharge), 0);
+  const equivalentFullCyclesPerYear =
+    battery.capacityKwh > 0 && days > 0 ? (discharged / battery.capacityKwh) * (365 / days) : 0;
+
+  const { dischargeEfficiency } = getBatteryParams(battery);
+  const depths: number[] = [];
+  let peak: number | null = null;
+  let trough = 0;
+  for (const h of hourlyResults) {
+    if (h.batteryCharge < 0) {
+      // Stored energy before this hour's discharge
+      if (peak === null) peak = h.batteryLevel - h.batteryCharge / dischargeEfficiency;
+      trough = h.batteryLevel;
+    } else if (h.batteryCharge > 0 && peak !== null) {
+      depths.push((peak - trough) / battery.capacityKwh);
+      peak = null;
+    }
+  }
+  if (peak !== null) depths.push((peak - trough) / battery.capacityKwh);
+  const averageDepthOfDischarge = depths.length > 0 ? depths.reduce((s, d) => s + d, 0) / depths.length : 0;
+
+  const cycleYears =
+    battery.cycleLife && equivalentFullCyclesPerYear > 0 ? battery.cycleLife / equivalentFullCyclesPerYear : null;
+  const calendarYears = battery.calendarLifeYears ?? null;
+  let yearsToEndOfLife: number | null = null;
+  let limitedBy: BatteryUsage['limitedBy'] = null;
+  if (cycleYears !== null && (calendarYears === null || cycleYears < calendarYears)) {
+    yearsToEndOfLife = cycleYears;
+    limitedBy = 'cycles';
+  } else if (calendarYears !== null) {
+    yearsToEndOfLife = calendarYears;
+    limitedBy = 'calendar';
+  }
+
+  const endOfLife = battery.endOfLifeCapacityPercent ?? DEFAULT_END_OF_LIFE_CAPACITY_PERCENT;
+  const capacityFadePercentPerYear = yearsToEndOfLife !== null ? (100 - endOfLife) / yearsToEndOfLife : null;
+
+  return { equivalentFullCyclesPerYear, averageDepthOfDischarge, yearsToEndOfLife, limitedBy, capacityFadePercentPerYear };
+}
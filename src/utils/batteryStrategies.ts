@@ -0,0 +1,152 @@
+import { hoursInDay } from './timezone.ts';
+
+export type BatteryStrategyId = 'self-consumption' | 'tariff-arbitrage' | 'pvpc-arbitrage' | 'backup-reserve';
+
+/** State of one simulated hour, as seen by a dispatch strategy. */
+export interface BatteryStrategyContext {
+  date: string;
+  /** 1-24 (Spanish CSV convention) */
+  hour: number;
+  tariffPeriod: string;
+  /** Consumption minus solar production (kWh); positive = deficit, negative = surplus. */
+  net: number;
+  batteryLevel: number;
+  capacityKwh: number;
+  maxChargeKw: number;
+  /** One-way charge efficiency (0-1). */
+  chargeEfficiency: number;
+  roundTripEfficiency: number;
+}
+
+export interface BatteryDispatch {
+  /** Energy to draw from the grid into the battery this hour (kWh), on top of surplus charging. */
+  gridChargeKwh: number;
+  /** Whether the battery may discharge to cover this hour's deficit. */
+  allowDischarge: boolean;
+  /** Stored energy (kWh) that discharging must never go below. */
+  reserveKwh: number;
+}
+
+export interface BatteryStrategy {
+  id: BatteryStrategyId;
+  name: string;
+  decide: (ctx: BatteryStrategyContext) => BatteryDispatch;
+}
+
+export interface BatteryStrategyOptions {
+  /** Minimum state of charge kept for backup (%). Used by 'backup-reserve'. */
+  reservePercent?: number;
+  /** PVPC prices keyed `YYYY-MM-DD-HH` (hour 0-23), as returned by loadPvpcPrices. Used by 'pvpc-arbitrage'. */
+  pvpcPrices?: Map<string, number>;
+}
+
+export const BATTERY_STRATEGIES: { id: BatteryStrategyId; name: string; description: string }[] = [
+  {
+    id: 'self-consumption',
+    name: 'Autoconsumo',
+    description: 'Carga con excedentes y descarga cuando falta energía',
+  },
+  {
+    id: 'tariff-arbitrage',
+    name: 'Arbitraje por periodos',
+    description: 'Carga desde la red en valle y descarga solo en punta',
+  },
+  {
+    id: 'pvpc-arbitrage',
+    name: 'Arbitraje PVPC',
+    description: 'Carga en las horas más baratas del día y descarga en las más caras',
+  },
+  {
+    id: 'backup-reserve',
+    name: 'Reserva de respaldo',
+    description: 'Autoconsumo manteniendo una carga mínima para cortes de suministro',
+  },
+];
+
+export const DEFAULT_BACKUP_RESERVE_PERCENT = 30;
+
+const IDLE: BatteryDispatch = { gridChargeKwh: 0, allowDischarge: true, reserveKwh: 0 };
+
+function strategyName(id: BatteryStrategyId): string {
+  return BATTERY_STRATEGIES.find((s) => s.id === id)!.name;
+}
+
+/** Energy needed from the grid to fill the battery, before losses. */
+function gridChargeToFull(ctx: BatteryStrategyContext): number {
+  return (ctx.capacityKwh - ctx.batteryLevel) / ctx.chargeEfficiency;
+}
+
+/**
+ * PVPC arbitrage: each day, charge during the N cheapest hours and discharge only during
+ * the N most expensive ones, where N is the number of hours needed to fill the battery at
+ * full power. Days whose spread doesn't cover round-trip losses fall back to self-consumption.
+ */
+function createPvpcArbitrageStrategy(prices: Map<string, number>): BatteryStrategy {
+  const ranking = new Map<string, { cheap: Set<number>; expensive: Set<number>; profitable: boolean }>();
+
+  const rankDay = (date: string, hoursNeeded: number, efficiency: number) => {
+    const hours: { hour: number; price: number }[] = [];
+    for (let h = 1; h <= hoursInDay(date); h++) {
+      const price = prices.get(`${date}-${String(h - 1).padStart(2, '0')}`);
+      if (price !== undefined) hours.push({ hour: h, price });
+    }
+    hours.sort((a, b) => a.price - b.price);
+    const n = Math.min(hoursNeeded, Math.floor(hours.length / 2));
+    const cheap = hours.slice(0, n);
+    const expensive = hours.slice(hours.length - n);
+    const avg = (list: typeof hours) => list.reduce((s, h) => s + h.price, 0) / (list.length || 1);
+    return {
+      cheap: new Set(cheap.map((h) => h.hour)),
+      expensive: new Set(expensive.map((h) => h.hour)),
+      profitable: n > 0 && avg(cheap) < avg(expensive) * efficiency,
+    };
+  };
+
+  return {
+    id: 'pvpc-arbitrage',
+    name: strategyName('pvpc-arbitrage'),
+    decide: (ctx) => {
+      let day = ranking.get(ctx.date);
+      if (!day) {
+        const hoursNeeded = ctx.maxChargeKw > 0 ? Math.ceil(ctx.capacityKwh / ctx.maxChargeKw) : 0;
+        day = rankDay(ctx.date, hoursNeeded, ctx.roundTripEfficiency);
+        ranking.set(ctx.date, day);
+      }
+      if (!day.profitable) return IDLE;
+      if (day.cheap.has(ctx.hour)) {
+        return { gridChargeKwh: gridChargeToFull(ctx), allowDischarge: false, reserveKwh: 0 };
+      }
+      return { gridChargeKwh: 0, allowDischarge: day.expensive.has(ctx.hour), reserveKwh: 0 };
+    },
+  };
+}
+
+export function createBatteryStrategy(id: BatteryStrategyId, options: BatteryStrategyOptions = {}): BatteryStrategy {
+  switch (id) {
+    case 'self-consumption':
+      return { id, name: strategyName(id), decide: () => IDLE };
+
+    case 'tariff-arbitrage':
+      // Only meaningful for schedules using the 2.0TD period names
+      return {
+        id,
+        name: strategyName(id),
+        decide: (ctx) =>
+          ctx.tariffPeriod === 'valle'
+            ? { gridChargeKwh: gridChargeToFull(ctx), allowDischarge: false, reserveKwh: 0 }
+            : { gridChargeKwh: 0, allowDischarge: ctx.tariffPeriod === 'punta', reserveKwh: 0 },
+      };
+
+    case 'pvpc-arbitrage':
+      return createPvpcArbitrageStrategy(options.pvpcPrices ?? new Map());
+
+    case 'backup-reserve': {
+      const reserveFraction = (options.reservePercent ?? DEFAULT_BACKUP_RESERVE_PERCENT) / 100;
+      return {
+        id,
+        name: `${strategyName(id)} (${Math.round(reserveFraction * 100)}%)`,
+        decide: (ctx) => ({ gridChargeKwh: 0, allowDischarge: true, reserveKwh: ctx.capacityKwh * reserveFraction }),
+      };
+    }
+  }
+}
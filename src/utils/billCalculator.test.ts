@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { CompanyOffer } from '../db.ts';
+import {
+  calculateExcessPower,
+  DEFAULT_EXCESS_POWER_PRICE,
+  defaultExcessPowerMetering,
+  type HourlySimResult,
+} from './billCalculator.ts';
+
+const offer = {
+  contractedPowerKw: { P1: 10, P2: 10, P3: 10, P4: 10, P5: 10, P6: 10 },
+  excessPowerPricePerKw: 1,
+} as unknown as CompanyOffer;
+
+/** Hours of period P1 with the given grid demand (kWh in one hour = kW). */
+function hours(demandKw: number[]): HourlySimResult[] {
+  return demandKw.map(
+    (kw, i) => ({ date: '2024-01-15', hour: i + 1, powerPeriod: 'P1', gridPurchase: kw }) as HourlySimResult,
+  );
+}
+
+describe('calculateExcessPower', () => {
+  it('uses the quarter-hour formula for metering tipo 1-3', () => {
+    const result = calculateExcessPower(hours([13, 14, 9]), { ...offer, excessPowerMetering: 'quarterHour' });
+    expect(result).toBeCloseTo(5); // √(3² + 4²)
+  });
+
+  it('bills twice the highest excess with a maximeter (tipo 4)', () => {
+    const result = calculateExcessPower(hours([13, 14, 9]), { ...offer, excessPowerMetering: 'maximeter' });
+    expect(result).toBeCloseTo(8);
+  });
+
+  it('defaults to the regulated price and skips supplies without excess term', () => {
+    const metered = { ...offer, excessPowerMetering: 'maximeter' as const, excessPowerPricePerKw: undefined };
+    expect(calculateExcessPower(hours([11]), metered)).toBeCloseTo(2 * DEFAULT_EXCESS_POWER_PRICE);
+    expect(calculateExcessPower(hours([11]), offer)).toBe(0);
+  });
+});
+
+describe('defaultExcessPowerMetering', () => {
+  it('picks the maximeter up to 50 kW', () => {
+    expect(defaultExcessPowerMetering({ P1: 15, P6: 50 })).toBe('maximeter');
+    expect(defaultExcessPowerMetering({ P1: 40, P6: 60 })).toBe('quarterHour');
+  });
+});
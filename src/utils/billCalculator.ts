@@ -1,16 +1,32 @@
-import type { CompanyOffer } from '../db.ts';
+import type { CompanyOffer, ExcessPowerMetering, TariffRegion } from '../db.ts';
+import { getIndirectTaxPercent } from './regions.ts';
+import { getIntervalHours } from './timeResolution.ts';
+import { calculateBonoSocialDiscount } from './bonoSocial.ts';
+import { applyPromotion } from './promotions.ts';
 
 export interface HourlySimResult {
   date: string;
   hour: number;
+  /** 1-4 when simulated at 15-minute resolution; all energy fields are then per quarter-hour. */
+  quarter?: number;
+  /** Household consumption plus EV charging and heat pump load (kWh). */
   consumption: number;
+  /** EV charging load included in consumption (kWh). */
+  evCharge: number;
+  /** Heat pump electric load included in consumption (kWh). */
+  heatPumpLoad: number;
   solarProduction: number;
+  /** Energy clipped by the inverter this hour (kWh), already excluded from solarProduction. */
+  inverterClipping: number;
   batteryCharge: number;
   batteryLoss: number;
   batteryLevel: number;
   gridPurchase: number;
   gridSurplus: number;
+  /** Surplus that could not be exported because of the injection cap (kWh). */
+  curtailed: number;
   tariffPeriod: string;
+  powerPeriod: string;
   energyCost: number;
   energyPrice: number;
   powerTermCost: number;
@@ -27,7 +43,14 @@ export interface BillResult {
   virtualBatteryFee: number;
   powerTerm: number;
   meterRental: number;
+  /** 3.0TD excess-power penalty (excesos de potencia), 0 when the offer has no excess price. */
+  excessPower: number;
+  /** Bono social discount (positive amount, subtracted before taxes). */
+  bonoSocialDiscount: number;
+  /** Promotional discounts and welcome credit (positive amount, subtracted before taxes). */
+  promotionDiscount: number;
   electricityTax: number;
+  /** Indirect tax: IVA, IGIC in Canarias or IPSI in Ceuta/Melilla. */
   iva: number;
   total: number;
 }
@@ -41,27 +64,97 @@ const EMPTY_BILL: BillResult = {
   virtualBatteryFee: 0,
   powerTerm: 0,
   meterRental: 0,
+  excessPower: 0,
+  bonoSocialDiscount: 0,
+  promotionDiscount: 0,
   electricityTax: 0,
   iva: 0,
   total: 0,
 };
 
+/** Regulated excess-power price (tep) of 3.0TD supplies (€/kW), used when the offer gives none. */
+export const DEFAULT_EXCESS_POWER_PRICE = 1.4064;
+
+/** Highest contracted power of metering tipo 4, controlled with a maximeter (RD 1110/2007). */
+export const MAXIMETER_MAX_POWER_KW = 50;
+
+/** Kp weight of each 3.0TD period in the excess-power term (CNMC Circular 3/2020). */
+const EXCESS_POWER_KP: Record<string, number> = { P1: 1, P2: 0.5, P3: 0.37, P4: 0.37, P5: 0.37, P6: 0.17 };
+
+export function getContractedPower(offer: CompanyOffer, period: string): number {
+  if (typeof offer.contractedPowerKw === 'number') return offer.contractedPowerKw;
+  return offer.contractedPowerKw[period] ?? 0;
+}
+
+/** Metering type implied by the contracted power: tipo 4 up to 50 kW, quarter-hour tipo 1-3 above. */
+export function defaultExcessPowerMetering(contractedPowerKw: CompanyOffer['contractedPowerKw']): ExcessPowerMetering {
+  const values = typeof contractedPowerKw === 'number' ? [contractedPowerKw] : Object.values(contractedPowerKw);
+  return Math.max(0, ...values) > MAXIMETER_MAX_POWER_KW ? 'quarterHour' : 'maximeter';
+}
+
+/**
+ * Excesos de potencia of one billing period (CNMC Circular 3/2020), where Pd is the average grid
+ * demand (kW) of an interval and Pc the contracted power of its period:
+ * - quarter-hour metering (tipo 1-3): Σp Kp · tep · √Σ(Pd − Pc)² over the intervals above Pc;
+ * - maximeter (tipo 4): Σp tp · 2 · (max Pd − Pc), with tp = Kp · tep.
+ * With hourly data Pd is an hourly average, so quarter-hour peaks inside the hour are not seen.
+ */
+export function calculateExcessPower(hourlyResults: HourlySimResult[], offer: CompanyOffer): number {
+  if (!offer.excessPowerMetering) return 0;
+  const tep = offer.excessPowerPricePerKw ?? DEFAULT_EXCESS_POWER_PRICE;
+  if (tep <= 0) return 0;
+
+  const squaredExcess: Record<string, number> = {};
+  const maxExcess: Record<string, number> = {};
+  for (const h of hourlyResults) {
+    if (EXCESS_POWER_KP[h.powerPeriod] === undefined) continue;
+    const excessKw = h.gridPurchase / getIntervalHours(h) - getContractedPower(offer, h.powerPeriod);
+    if (excessKw <= 0) continue;
+    squaredExcess[h.powerPeriod] = (squaredExcess[h.powerPeriod] ?? 0) + excessKw ** 2;
+    maxExcess[h.powerPeriod] = Math.max(maxExcess[h.powerPeriod] ?? 0, excessKw);
+  }
+  if (offer.excessPowerMetering === 'maximeter') {
+    return Object.entries(maxExcess).reduce((sum, [period, kw]) => sum + EXCESS_POWER_KP[period] * tep * 2 * kw, 0);
+  }
+  return Object.entries(squaredExcess).reduce(
+    (sum, [period, sq]) => sum + EXCESS_POWER_KP[period] * tep * Math.sqrt(sq),
+    0,
+  );
+}
+
 export function calculateBill(
   hourlyResults: HourlySimResult[],
   offer: CompanyOffer,
   virtualBatteryBalance: number = 0,
-): BillResult & { newVirtualBatteryBalance: number } {
+  region: TariffRegion = offer.region ?? 'peninsula',
+  bonoSocialKwhRemaining: number = offer.bonoSocial?.annualKwhLimit ?? 0,
+  /** Month of the contract (0 = first); undefined bills at regular prices without promotions. */
+  contractMonth?: number,
+): BillResult & { newVirtualBatteryBalance: number; newBonoSocialKwhRemaining: number } {
   if (hourlyResults.length === 0) {
-    return { ...EMPTY_BILL, newVirtualBatteryBalance: virtualBatteryBalance };
+    return {
+      ...EMPTY_BILL,
+      newVirtualBatteryBalance: virtualBatteryBalance,
+      newBonoSocialKwhRemaining: bonoSocialKwhRemaining,
+    };
   }
 
-  const energyCost = hourlyResults.reduce((sum, h) => sum + h.energyCost, 0);
+  let energyCost = hourlyResults.reduce((sum, h) => sum + h.energyCost, 0);
   const powerTerm = hourlyResults.reduce((sum, h) => sum + h.powerTermCost, 0);
+  const purchasedKwh = hourlyResults.reduce((sum, h) => sum + h.gridPurchase, 0);
   const surplusGenerated = hourlyResults.reduce((sum, h) => sum + h.surplusValue, 0);
 
   const dates = new Set(hourlyResults.map((h) => h.date));
   const days = dates.size;
 
+  // A promotional price replaces the energy term before surplus compensation is capped against it
+  let promotionDiscount = 0;
+  if (offer.promotion && contractMonth !== undefined) {
+    const promotion = applyPromotion(offer.promotion, contractMonth, energyCost, powerTerm, purchasedKwh);
+    energyCost = promotion.energyCost;
+    promotionDiscount = promotion.discount;
+  }
+
   let virtualBatteryDepositedEuros = 0;
   let virtualBatteryUsedEuros = 0;
   let virtualBatteryFee = 0;
@@ -82,12 +175,35 @@ export function calculateBill(
   const surplusLeftover = surplusGenerated - surplusCompensation;
 
   const meterRental = offer.meterRentalPerDay * days;
-  const electricityTax = (powerTerm + netEnergyCost) * (offer.electricityTaxPercent / 100);
+  const excessPower = calculateExcessPower(hourlyResults, offer);
+
+  // Bono social only exists on PVPC; the kWh cap is annual, so the caller carries what is left
+  let bonoSocialDiscount = 0;
+  let bonoSocialKwhLeft = bonoSocialKwhRemaining;
+  if (offer.usePvpcPrices && offer.bonoSocial) {
+    const bono = calculateBonoSocialDiscount(
+      offer.bonoSocial,
+      powerTerm,
+      netEnergyCost,
+      purchasedKwh,
+      bonoSocialKwhRemaining,
+    );
+    bonoSocialDiscount = bono.discount;
+    bonoSocialKwhLeft -= bono.discountedKwh;
+  }
+
+  // Discounts and credits never make the taxable base negative; any excess credit is lost
+  const taxableBeforePromotion = powerTerm + excessPower + netEnergyCost - bonoSocialDiscount;
+  promotionDiscount = Math.min(promotionDiscount, Math.max(0, taxableBeforePromotion));
+  const discounts = bonoSocialDiscount + promotionDiscount;
+
+  const electricityTax = (powerTerm + excessPower + netEnergyCost - discounts) * (offer.electricityTaxPercent / 100);
 
-  // IVA and IE are both calculated on the pre-VB subtotal.
+  // IVA (IGIC/IPSI outside the peninsula) and IE are both calculated on the pre-VB subtotal.
   // The VB credit is applied post-tax, as it works in real Spanish electricity bills.
-  const subtotal = netEnergyCost + powerTerm + meterRental + electricityTax + virtualBatteryFee;
-  const iva = subtotal * (offer.ivaPercent / 100);
+  const subtotal =
+    netEnergyCost + powerTerm + excessPower - discounts + meterRental + electricityTax + virtualBatteryFee;
+  const iva = subtotal * (getIndirectTaxPercent(offer, region) / 100);
   const totalBeforeVB = subtotal + iva;
 
   if (offer.hasVirtualBattery) {
@@ -111,9 +227,13 @@ export function calculateBill(
     virtualBatteryFee,
     powerTerm,
     meterRental,
+    excessPower,
+    bonoSocialDiscount,
+    promotionDiscount,
     electricityTax,
     iva,
     total,
     newVirtualBatteryBalance: currentBalance,
+    newBonoSocialKwhRemaining: bonoSocialKwhLeft,
   };
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { CompanyOffer } from '../db.ts';
+import { calculateBill, type HourlySimResult } from './billCalculator.ts';
+import { bonoSocialKwhAtMonthStart, calculateBonoSocialDiscount, DEFAULT_BONO_SOCIAL } from './bonoSocial.ts';
+
+const config = { ...DEFAULT_BONO_SOCIAL, discountPercent: 50, annualKwhLimit: 1200 };
+
+describe('calculateBonoSocialDiscount', () => {
+  it('discounts the whole power term and the energy share under the cap', () => {
+    // 100 of 400 kWh still under the cap: a quarter of the 80 € energy term
+    expect(calculateBonoSocialDiscount(config, 20, 80, 400, 100)).toEqual({
+      discount: (20 + 20) * 0.5,
+      discountedKwh: 100,
+    });
+  });
+
+  it('discounts all the energy while the cap lasts and only the power term after it', () => {
+    expect(calculateBonoSocialDiscount(config, 20, 80, 400, 1000)).toEqual({ discount: 50, discountedKwh: 400 });
+    expect(calculateBonoSocialDiscount(config, 20, 80, 400, 0)).toEqual({ discount: 10, discountedKwh: 0 });
+  });
+});
+
+const offer = {
+  usePvpcPrices: true,
+  bonoSocial: config,
+  meterRentalPerDay: 0,
+  electricityTaxPercent: 0,
+  ivaPercent: 0,
+  surplusCompensationPerKwh: 0,
+  hasVirtualBattery: false,
+} as unknown as CompanyOffer;
+
+/** One billing month with a single hour buying `kwh` at 0.1 €/kWh and no power term. */
+function month(date: string, kwh: number): HourlySimResult[] {
+  return [
+    { date, hour: 1, gridPurchase: kwh, energyCost: kwh * 0.1, powerTermCost: 0, surplusValue: 0, powerPeriod: 'P1' },
+  ] as HourlySimResult[];
+}
+
+/** Bill consecutive months carrying the cap as runSimulation does; returns the discounted kWh. */
+function billMonths(months: [string, number][]): number[] {
+  let remaining = 0;
+  return months.map(([date, kwh], contractMonth) => {
+    remaining = bonoSocialKwhAtMonthStart(config, contractMonth, remaining);
+    const bill = calculateBill(month(date, kwh), offer, 0, 'peninsula', remaining);
+    const discounted = remaining - bill.newBonoSocialKwhRemaining;
+    remaining = bill.newBonoSocialKwhRemaining;
+    return discounted;
+  });
+}
+
+describe('bono social cap across months', () => {
+  it('carries what is left of the cap to the next month', () => {
+    expect(
+      billMonths([
+        ['2024-01-01', 500],
+        ['2024-02-01', 500],
+        ['2024-03-01', 500],
+      ]),
+    ).toEqual([500, 500, 200]);
+  });
+
+  it('keeps a single cap for twelve months spanning two calendar years', () => {
+    const months: [string, number][] = Array.from({ length: 12 }, (_, i) => {
+      const m = ((6 + i) % 12) + 1;
+      return [`${m >= 7 ? 2023 : 2024}-${String(m).padStart(2, '0')}-01`, 200];
+    });
+    const discounted = billMonths(months);
+    expect(discounted.reduce((s, v) => s + v, 0)).toBe(config.annualKwhLimit);
+    // July to December use it up; January does not start a new one
+    expect(discounted.slice(6)).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it('starts a new cap after twelve billed months', () => {
+    expect(bonoSocialKwhAtMonthStart(config, 12, 0)).toBe(1200);
+    expect(bonoSocialKwhAtMonthStart(undefined, 0, 0)).toBe(0);
+  });
+});
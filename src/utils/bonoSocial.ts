@@ -0,0 +1,65 @@
+import type { BonoSocialCategory, BonoSocialConfig, BonoSocialHousehold } from '../db.ts';
+
+/**
+ * Discount per category (RD 897/2017). Temporary extensions have raised these (up to 65% and
+ * more for severe vulnerability), so the offer stores its own percentage.
+ */
+export const BONO_SOCIAL_CATEGORIES: { id: BonoSocialCategory; name: string; discountPercent: number }[] = [
+  { id: 'vulnerable', name: 'Consumidor vulnerable', discountPercent: 25 },
+  { id: 'vulnerable-severo', name: 'Vulnerable severo', discountPercent: 40 },
+];
+
+/** Annual kWh with discount per household composition (RD 897/2017). */
+export const BONO_SOCIAL_HOUSEHOLDS: { id: BonoSocialHousehold; name: string; annualKwhLimit: number }[] = [
+  { id: 'sin-menores', name: 'Sin menores', annualKwhLimit: 1380 },
+  { id: 'un-menor', name: 'Con un menor', annualKwhLimit: 1932 },
+  { id: 'dos-menores', name: 'Con dos menores', annualKwhLimit: 2346 },
+  { id: 'familia-numerosa', name: 'Familia numerosa', annualKwhLimit: 4140 },
+  { id: 'pensionistas', name: 'Pensionistas con pensión mínima', annualKwhLimit: 1932 },
+];
+
+export const DEFAULT_BONO_SOCIAL: BonoSocialConfig = {
+  category: 'vulnerable',
+  household: 'sin-menores',
+  discountPercent: 25,
+  annualKwhLimit: 1380,
+};
+
+export interface BonoSocialDiscount {
+  discount: number;
+  /** Grid kWh of the period that got the discount. */
+  discountedKwh: number;
+}
+
+/**
+ * Bono social discount of one billing period: the whole power term plus the share of the energy
+ * term (net of surplus compensation) for the kWh still under the annual cap.
+ */
+export function calculateBonoSocialDiscount(
+  config: BonoSocialConfig,
+  powerTerm: number,
+  netEnergyCost: number,
+  purchasedKwh: number,
+  kwhRemaining: number,
+): BonoSocialDiscount {
+  const discountedKwh = Math.max(0, Math.min(purchasedKwh, kwhRemaining));
+  const energyShare = purchasedKwh > 0 ? discountedKwh / purchasedKwh : 0;
+  return {
+    discount: (powerTerm + netEnergyCost * energyShare) * (config.discountPercent / 100),
+    discountedKwh,
+  };
+}
+
+/**
+ * kWh of the annual cap available at the start of a billed month. One cap covers every 12 billed
+ * months from the first, so a year of data spanning two calendar years (e.g. Jul–Jun) gets a
+ * single cap; `carriedKwh` is what the previous month left.
+ */
+export function bonoSocialKwhAtMonthStart(
+  config: BonoSocialConfig | undefined,
+  contractMonth: number,
+  carriedKwh: number,
+): number {
+  if (!config) return 0;
+  return contractMonth % 12 === 0 ? config.annualKwhLimit : carriedKwh;
+}
@@ -0,0 +1,107 @@
+import type { CompanyOffer, ConsumptionRecord, SolarInstallation, TariffSchedule } from '../db.ts';
+import { runSimulation } from './simulation.ts';
+
+export interface CalibrationMonth {
+  month: string;
+  measuredExportKwh: number;
+  simulatedExportKwh: number;
+  /** null when the meter data has no generation column. */
+  measuredGenerationKwh: number | null;
+  simulatedProductionKwh: number;
+}
+
+export interface CalibrationResult {
+  months: CalibrationMonth[];
+  measuredExportKwh: number;
+  simulatedExportKwh: number;
+  measuredGenerationKwh: number | null;
+  simulatedProductionKwh: number;
+  /** measured / simulated export; above 1 means the model is pessimistic. null if nothing was simulated. */
+  exportRatio: number | null;
+  /** measured / simulated generation, when generation was measured. */
+  generationRatio: number | null;
+  /** True when household consumption could be rebuilt from measured generation. */
+  usedMeasuredGeneration: boolean;
+}
+
+export function hasMeasuredExport(records: ConsumptionRecord[]): boolean {
+  return records.some((r) => r.exportKwh !== undefined);
+}
+
+/**
+ * Household consumption behind the meter: grid import plus the solar energy consumed on site
+ * (generation − export). Without measured generation only the grid import is known.
+ */
+export function getHouseholdKwh(record: ConsumptionRecord): number {
+  if (record.generationKwh === undefined) return record.kwh;
+  return record.kwh + Math.max(0, record.generationKwh - (record.exportKwh ?? 0));
+}
+
+/**
+ * Compare measured meter export (and generation, if present) against what `runSimulation`
+ * predicts for the same installation, hour by hour, without battery. Only hours with measured
+ * export are used. When generation is unknown, self-consumed solar cannot be added back to the
+ * load, so the simulated export is an upper bound.
+ */
+export async function calibrateInstallation(
+  records: ConsumptionRecord[],
+  installation: SolarInstallation,
+  offer: CompanyOffer,
+  schedule: TariffSchedule | null,
+): Promise<CalibrationResult> {
+  const measured = records.filter((r) => r.exportKwh !== undefined);
+  const usedMeasuredGeneration = measured.length > 0 && measured.every((r) => r.generationKwh !== undefined);
+  const household = measured.map((r) => ({ ...r, kwh: getHouseholdKwh(r) }));
+
+  // Prices are irrelevant here: only the energy flows are compared, so nothing is fetched
+  const zeroPrices = async (queries: unknown[]) => queries.map(() => 0);
+  const result = await runSimulation(household, installation, offer, null, schedule, schedule, zeroPrices, {
+    surplusPriceResolver: zeroPrices,
+  });
+
+  const byMonth = new Map<string, CalibrationMonth>();
+  const monthOf = (date: string) => {
+    const month = date.substring(0, 7);
+    if (!byMonth.has(month)) {
+      byMonth.set(month, {
+        month,
+        measuredExportKwh: 0,
+        simulatedExportKwh: 0,
+        measuredGenerationKwh: usedMeasuredGeneration ? 0 : null,
+        simulatedProductionKwh: 0,
+      });
+    }
+    return byMonth.get(month)!;
+  };
+
+  for (const r of measured) {
+    const m = monthOf(r.date);
+    m.measuredExportKwh += r.exportKwh!;
+    if (m.measuredGenerationKwh !== null) m.measuredGenerationKwh += r.generationKwh ?? 0;
+  }
+  for (const hr of result.hourlyResults) {
+    const m = monthOf(hr.date);
+    m.simulatedExportKwh += hr.gridSurplus;
+    m.simulatedProductionKwh += hr.solarProduction;
+  }
+
+  const months = [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
+  const measuredExportKwh = months.reduce((s, m) => s + m.measuredExportKwh, 0);
+  const simulatedExportKwh = months.reduce((s, m) => s + m.simulatedExportKwh, 0);
+  const measuredGenerationKwh = usedMeasuredGeneration
+    ? months.reduce((s, m) => s + (m.measuredGenerationKwh ?? 0), 0)
+    : null;
+  const simulatedProductionKwh = months.reduce((s, m) => s + m.simulatedProductionKwh, 0);
+
+  return {
+    months,
+    measuredExportKwh,
+    simulatedExportKwh,
+    measuredGenerationKwh,
+    simulatedProductionKwh,
+    exportRatio: simulatedExportKwh > 0 ? measuredExportKwh / simulatedExportKwh : null,
+    generationRatio:
+      measuredGenerationKwh !== null && simulatedProductionKwh > 0 ? measuredGenerationKwh / simulatedProductionKwh : null,
+    usedMeasuredGeneration,
+  };
+}
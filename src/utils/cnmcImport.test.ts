@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { dropDuplicateOffers, parseCnmcOffers } from './cnmcImport.ts';
+
+const HEADER = 'Comercializadora;Oferta;Peaje;Energía P1;Energía P2;Energía P3;Potencia P1;Potencia P2;Excedentes';
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join('\n');
+}
+
+describe('parseCnmcOffers', () => {
+  it('imports 2.0TD offers and skips other access tariffs', () => {
+    const { offers, skipped } = parseCnmcOffers(
+      csv(
+        'Luz SA;Tres periodos;2.0TD;0,18;0,12;0,08;0,09;0,01;0,05',
+        'Luz SA;Empresa;3.0TD;0,16;0,14;0,11;0,05;0,03;0,05',
+        'Otra SL;Sin peaje;;0,15;0,15;0,15;0,08;0,01;0,04',
+      ),
+    );
+    expect(skipped).toBe(1);
+    expect(offers.map((o) => o.name)).toEqual(['Tres periodos', 'Sin peaje']);
+    expect(offers[0].prices).toEqual({ punta: 0.18, llano: 0.12, valle: 0.08 });
+  });
+
+  it('explains when only other access tariffs are present', () => {
+    expect(() => parseCnmcOffers(csv('Luz SA;Empresa;3.0TD;0,16;0,14;0,11;0,05;0,03;0,05'))).toThrow(/2\.0TD/);
+  });
+});
+
+describe('dropDuplicateOffers', () => {
+  it('drops offers already saved or repeated in the file', () => {
+    const { offers } = parseCnmcOffers(
+      csv(
+        'Luz SA;Tres periodos;2.0TD;0,18;0,12;0,08;0,09;0,01;0,05',
+        'Luz SA;Tres periodos;2.0TD;0,18;0,12;0,08;0,09;0,01;0,05',
+        'Luz SA;Tres periodos;2.0TD;0,17;0,12;0,08;0,09;0,01;0,05',
+        'Otra SL;Plana;2.0TD;0,15;0,15;0,15;0,08;0,01;0,04',
+      ),
+    );
+    const saved = [{ ...offers[3], companyName: 'OTRA SL', prices: { valle: 0.15, punta: 0.15, llano: 0.15 } }];
+    const added = dropDuplicateOffers(offers, saved);
+    expect(added.map((o) => o.prices.punta)).toEqual([0.18, 0.17]);
+  });
+});
+
+describe('price units', () => {
+  it('reads cents and monthly power prices from the header', () => {
+    const { offers } = parseCnmcOffers(
+      [
+        'Comercializadora;Oferta;Energía (c€/kWh);Potencia P1 (€/kW mes);Potencia P2 (cent/kW día)',
+        'Luz SA;Plana;15,2;3,65;0,5',
+      ].join('\n'),
+    );
+    expect(offers[0].prices.punta).toBeCloseTo(0.152);
+    expect(offers[0].powerPrices.punta).toBeCloseTo(0.12);
+    expect(offers[0].powerPrices.valle).toBeCloseTo(0.005);
+    expect(offers[0].needsReview?.some((w) => w.includes('interpretado'))).toBeFalsy();
+  });
+
+  it('falls back to the value size without units', () => {
+    const { offers } = parseCnmcOffers(
+      ['Comercializadora;Oferta;Energía;Potencia P1', 'Luz SA;Plana;150;36,5'].join('\n'),
+    );
+    expect(offers[0].prices.punta).toBeCloseTo(0.15);
+    expect(offers[0].powerPrices.punta).toBeCloseTo(0.1);
+    expect(offers[0].needsReview).toEqual(
+      expect.arrayContaining([
+        'Energía: 150 interpretado como €/MWh',
+        'Potencia P1: 36.5 interpretado como €/kW·año',
+      ]),
+    );
+  });
+});
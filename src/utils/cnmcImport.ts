@@ -0,0 +1,335 @@
+import { db, type CompanyOffer, type OfferPromotion } from '../db.ts';
+import { cleanCell, normalizeColumn } from './csvFormats.tsx';
+import { DEFAULT_PROMOTION } from './promotions.ts';
+
+/**
+ * Offers downloaded from the CNMC price comparator (comparador.cnmc.gob.es), as JSON or CSV.
+ *
+ * The export has changed shape over time, so columns are matched by name: case, accents, units
+ * in parentheses and punctuation are ignored, and each field accepts the spellings in
+ * FIELD_ALIASES. Whatever cannot be mapped with confidence is imported anyway and listed in
+ * CompanyOffer.needsReview. Only 2.0TD offers are imported: other access tariffs (3.0TD, 6.xTD)
+ * have six periods the comparator columns do not cover, so they are skipped and counted.
+ */
+
+type CnmcField =
+  | 'company'
+  | 'name'
+  | 'tariff'
+  | 'priceType'
+  | 'energy'
+  | 'energyP1'
+  | 'energyP2'
+  | 'energyP3'
+  | 'powerP1'
+  | 'powerP2'
+  | 'surplus'
+  | 'permanence'
+  | 'penalty'
+  | 'discount'
+  | 'extras';
+
+/** Normalized column names per field, most specific first. */
+const FIELD_ALIASES: Record<CnmcField, string[]> = {
+  company: ['comercializadora', 'empresa', 'compania', 'company'],
+  name: ['nombre oferta', 'nombre de la oferta', 'oferta', 'producto', 'nombre', 'name'],
+  tariff: ['peaje', 'peaje de acceso', 'tarifa de acceso', 'tarifa'],
+  priceType: ['tipo de precio', 'tipo precio', 'precio fijo o indexado', 'modalidad'],
+  energy: ['precio energia', 'termino energia', 'termino de energia', 'energia'],
+  energyP1: ['precio energia p1', 'termino energia p1', 'termino de energia p1', 'energia p1', 'energia punta'],
+  energyP2: ['precio energia p2', 'termino energia p2', 'termino de energia p2', 'energia p2', 'energia llano'],
+  energyP3: ['precio energia p3', 'termino energia p3', 'termino de energia p3', 'energia p3', 'energia valle'],
+  powerP1: ['precio potencia p1', 'termino potencia p1', 'termino de potencia p1', 'potencia p1', 'potencia punta'],
+  powerP2: ['precio potencia p2', 'termino potencia p2', 'termino de potencia p2', 'potencia p2', 'potencia valle'],
+  surplus: ['compensacion excedentes', 'compensacion de excedentes', 'precio excedentes', 'excedentes'],
+  permanence: ['permanencia', 'meses permanencia', 'duracion permanencia'],
+  penalty: ['penalizacion', 'penalizacion permanencia', 'penalizacion por baja'],
+  discount: ['descuento', 'descuentos', 'promocion', 'promociones'],
+  extras: ['servicios adicionales', 'servicios adicionales obligatorios', 'servicios'],
+};
+
+/** Defaults for what the comparator does not publish; same values as a new offer in OffersPanel. */
+const IMPORT_DEFAULTS = {
+  contractedPowerKw: { punta: 4.6, valle: 4.6 },
+  meterRentalPerDay: 0.03,
+  electricityTaxPercent: 3.8,
+  ivaPercent: 21,
+};
+
+/** Energy above this is assumed to be €/MWh; power above this, €/kW·año. */
+const MAX_ENERGY_PRICE_PER_KWH = 1;
+const MAX_POWER_PRICE_PER_KW_DAY = 1;
+
+export interface CnmcParseResult {
+  offers: Omit<CompanyOffer, 'id' | 'tariffScheduleId'>[];
+  /** Rows of other access tariffs, not imported. */
+  skipped: number;
+}
+
+export interface CnmcImportResult {
+  imported: number;
+  needsReview: number;
+  skipped: number;
+  /** Offers already in the database (or repeated in the file), not added again. */
+  duplicates: number;
+  scheduleName: string;
+}
+
+type Row = Record<string, unknown>;
+
+/** Column name without units, punctuation, case or accents: 'Energía P1 (€/kWh)' → 'energia p1'. */
+function columnKey(header: string): string {
+  return normalizeColumn(header)
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function findColumn(row: Row, field: CnmcField): string | undefined {
+  const headers = Object.keys(row);
+  for (const alias of FIELD_ALIASES[field]) {
+    const header = headers.find((h) => columnKey(h) === alias);
+    if (header !== undefined && row[header] !== '' && row[header] != null) return header;
+  }
+  return undefined;
+}
+
+function parseNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  let text = value.replace(/[€%\s]|eur/gi, '');
+  // '1.234,56' (Spanish) or '0,123' → '1234.56' / '0.123'
+  if (text.includes(',')) text = text.replace(/\./g, '').replace(',', '.');
+  const n = parseFloat(text);
+  return isNaN(n) ? undefined : n;
+}
+
+function fieldText(row: Row, field: CnmcField): string | undefined {
+  const header = findColumn(row, field);
+  return header === undefined ? undefined : String(row[header]).trim();
+}
+
+/** Cents in a header unit: 'c€/kwh', 'cent/kwh', 'centimos de euro'. */
+const CENTS_UNIT = /(^|[^a-z])(c€|cent)/;
+const MONTH_UNIT = /(^|[^a-z])(mes|month)([^a-z]|$)/;
+const YEAR_UNIT = /(^|[^a-z])(ano|year)([^a-z]|$)/;
+
+/**
+ * A price field in €/kWh or €/kW·día. Units stated in the header (cents, MWh, month, year) are
+ * converted silently; without them, a value too large for the unit is assumed to be €/MWh or
+ * €/kW·año and flagged.
+ */
+function fieldPrice(row: Row, field: CnmcField, kind: 'energy' | 'power', warnings: string[]): number | undefined {
+  const header = findColumn(row, field);
+  if (header === undefined) return undefined;
+  const parsed = parseNumber(row[header]);
+  if (parsed === undefined) return undefined;
+
+  const unit = normalizeColumn(header);
+  const inCents = CENTS_UNIT.test(unit);
+  const value = inCents ? parsed / 100 : parsed;
+  if (kind === 'energy') {
+    if (unit.includes('mwh')) return value / 1000;
+    if (inCents || value <= MAX_ENERGY_PRICE_PER_KWH) return value;
+    warnings.push(`${header}: ${parsed} interpretado como €/MWh`);
+    return value / 1000;
+  }
+  if (YEAR_UNIT.test(unit)) return value / 365;
+  if (MONTH_UNIT.test(unit)) return (value * 12) / 365;
+  if (inCents || value <= MAX_POWER_PRICE_PER_KW_DAY) return value;
+  warnings.push(`${header}: ${parsed} interpretado como €/kW·año`);
+  return value / 365;
+}
+
+/** Split a CSV line on the delimiter, honouring double-quoted cells. */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map(cleanCell);
+}
+
+function parseCsvRows(text: string): Row[] {
+  const lines = text.trim().split(/\r?\n/);
+  if (lines.length < 2) throw new Error('Fichero vacío o sin ofertas');
+  const delimiter = lines[0].split(';').length > lines[0].split(',').length ? ';' : ',';
+  const headers = splitCsvLine(lines[0], delimiter);
+  return lines
+    .slice(1)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = splitCsvLine(line, delimiter);
+      return Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? '']));
+    });
+}
+
+function parseJsonRows(text: string): Row[] {
+  const data: unknown = JSON.parse(text);
+  const list = Array.isArray(data)
+    ? data
+    : Object.values(data as Record<string, unknown>).find((v): v is unknown[] => Array.isArray(v));
+  if (!list) throw new Error('El JSON no contiene una lista de ofertas');
+  return list.filter((item): item is Row => typeof item === 'object' && item !== null);
+}
+
+/** Map one comparator row to an offer (without schedule), collecting what needs a manual check. */
+function mapRow(row: Row, index: number): Omit<CompanyOffer, 'id' | 'tariffScheduleId'> | null {
+  const warnings: string[] = [];
+  const companyName = fieldText(row, 'company') ?? '';
+  const name = fieldText(row, 'name') ?? '';
+  if (!companyName && !name) return null;
+
+  const priceType = normalizeColumn(fieldText(row, 'priceType') ?? '');
+  if (/indexad|variable|pvpc|mercado/.test(priceType)) {
+    warnings.push('Precio indexado o variable: revisa la fórmula de precio');
+  }
+
+  // A single energy price (tarifa plana) applies to the three periods
+  const flat = fieldPrice(row, 'energy', 'energy', warnings);
+  const p1 = fieldPrice(row, 'energyP1', 'energy', warnings) ?? flat;
+  const p2 = fieldPrice(row, 'energyP2', 'energy', warnings) ?? flat;
+  const p3 = fieldPrice(row, 'energyP3', 'energy', warnings) ?? flat;
+  if (p1 === undefined && p2 === undefined && p3 === undefined) warnings.push('Faltan los precios de energía');
+  else if (p1 === undefined || p2 === undefined || p3 === undefined) warnings.push('Falta el precio de algún periodo');
+
+  const power1 = fieldPrice(row, 'powerP1', 'power', warnings);
+  const power2 = fieldPrice(row, 'powerP2', 'power', warnings) ?? power1;
+  if (power1 === undefined) warnings.push('Faltan los precios de potencia');
+
+  const surplus = fieldPrice(row, 'surplus', 'energy', warnings);
+  if (surplus === undefined) warnings.push('Sin precio de compensación de excedentes');
+
+  const discount = fieldText(row, 'discount');
+  if (discount && !/^(no|0|-|ninguno)$/i.test(discount)) {
+    warnings.push(`Descuento o promoción: ${discount}`);
+  }
+  const extras = fieldText(row, 'extras');
+  if (extras && !/^(no|-|ninguno)$/i.test(extras)) {
+    warnings.push(`Servicios adicionales: ${extras}`);
+  }
+
+  let promotion: OfferPromotion | undefined;
+  const permanenceText = fieldText(row, 'permanence');
+  let permanenceMonths = parseNumber(permanenceText) ?? 0;
+  if (permanenceMonths === 0 && /^s[ií]/i.test(permanenceText ?? '')) {
+    permanenceMonths = 12;
+    warnings.push('Permanencia sin duración: se suponen 12 meses');
+  }
+  if (permanenceMonths > 0) {
+    promotion = {
+      ...DEFAULT_PROMOTION,
+      discountMonths: 0,
+      permanenceMonths,
+      earlyExitPenalty: parseNumber(row[findColumn(row, 'penalty') ?? '']) ?? 0,
+    };
+  }
+
+  return {
+    name: name || `Oferta ${index + 1}`,
+    companyName,
+    prices: { punta: p1 ?? 0, llano: p2 ?? 0, valle: p3 ?? 0 },
+    surplusCompensationPerKwh: surplus ?? 0,
+    surplusCompensationCapped: true,
+    hasVirtualBattery: false,
+    virtualBatteryMonthlyFee: 0,
+    contractedPowerKw: { ...IMPORT_DEFAULTS.contractedPowerKw },
+    powerPrices: { punta: power1 ?? 0, valle: power2 ?? 0 },
+    meterRentalPerDay: IMPORT_DEFAULTS.meterRentalPerDay,
+    electricityTaxPercent: IMPORT_DEFAULTS.electricityTaxPercent,
+    ivaPercent: IMPORT_DEFAULTS.ivaPercent,
+    promotion,
+    needsReview: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
+/** Rows without an access tariff are taken as 2.0TD, the comparator's domestic default. */
+function isOtherTariff(row: Row): boolean {
+  const tariff = fieldText(row, 'tariff');
+  return tariff !== undefined && !/2\.?0\s*td/i.test(tariff);
+}
+
+/** Parse a comparator export into offers; throws with a Spanish message when nothing is usable. */
+export function parseCnmcOffers(text: string): CnmcParseResult {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  const rows = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJsonRows(trimmed) : parseCsvRows(trimmed);
+  const rows20 = rows.filter((row) => !isOtherTariff(row));
+  const offers = rows20.map(mapRow).filter((o): o is NonNullable<typeof o> => o !== null);
+  if (offers.length === 0) {
+    throw new Error(
+      rows20.length < rows.length
+        ? 'El fichero de la CNMC no contiene ofertas 2.0TD; las de otros peajes no se importan'
+        : 'No se encontraron ofertas reconocibles en el fichero de la CNMC',
+    );
+  }
+  return { offers, skipped: rows.length - rows20.length };
+}
+
+type OfferIdentity = Pick<
+  CompanyOffer,
+  'companyName' | 'name' | 'prices' | 'powerPrices' | 'surplusCompensationPerKwh'
+>;
+
+/** Company, offer name and prices: offers with the same identity are the same comparator offer. */
+function offerIdentity(offer: OfferIdentity): string {
+  const sortedPrices = (prices: Record<string, number>) =>
+    Object.entries(prices).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([
+    normalizeColumn(offer.companyName),
+    normalizeColumn(offer.name),
+    sortedPrices(offer.prices),
+    sortedPrices(offer.powerPrices),
+    offer.surplusCompensationPerKwh,
+  ]);
+}
+
+/** Offers not yet in `existing` nor earlier in the list, so importing a file twice adds nothing. */
+export function dropDuplicateOffers<T extends OfferIdentity>(offers: T[], existing: OfferIdentity[]): T[] {
+  const seen = new Set(existing.map(offerIdentity));
+  return offers.filter((offer) => {
+    const identity = offerIdentity(offer);
+    if (seen.has(identity)) return false;
+    seen.add(identity);
+    return true;
+  });
+}
+
+/**
+ * Import the 2.0TD offers of a comparator export that are not already saved: they use the first
+ * 2.0TD schedule, which is created when there is none yet.
+ */
+export async function importCnmcOffers(text: string): Promise<CnmcImportResult> {
+  const parsed = parseCnmcOffers(text);
+  const offers = dropDuplicateOffers(parsed.offers, await db.companyOffers.toArray());
+
+  let schedule = (await db.tariffSchedules.toArray()).find((s) => s.type === '2.0TD');
+  if (!schedule) {
+    const created = { name: '2.0TD', type: '2.0TD' as const };
+    schedule = { ...created, id: await db.tariffSchedules.add(created) };
+  }
+
+  await db.companyOffers.bulkAdd(offers.map((offer) => ({ ...offer, tariffScheduleId: schedule.id! })));
+  return {
+    imported: offers.length,
+    needsReview: offers.filter((o) => o.needsReview).length,
+    skipped: parsed.skipped,
+    duplicates: parsed.offers.length - offers.length,
+    scheduleName: schedule.name,
+  };
+}
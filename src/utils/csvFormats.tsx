@@ -6,8 +6,15 @@
  *   - delimiter: column separator character
  *   - requiredColumns: column names that must appear in the header (used for auto-detection)
  *   - getDate(cols): returns 'YYYY-MM-DD' from the row's column values, or undefined to skip
- *   - getHour(cols): returns hour in 1-24 convention, or undefined to skip
+ *   - getHour(cols): returns the hour's position in the local day (1-24; 1-23 / 1-25 on DST
+ *     transition days, as distributors number them), or undefined to skip
+ *   - clockTime: set when getHour returns wall-clock hours (1-24 convention) instead; the parser
+ *     then maps them to day positions, telling the repeated October hour apart by order
  *   - getKwh(cols):  returns consumption in kWh, or undefined to skip
+ *   - getMinute(cols): optional end-of-interval minute for files with 'HH:MM' times; any value
+ *     other than 0 marks the file as quarter-hourly (15-minute records)
+ *   - optionalColumns: columns read when present but not needed for detection (e.g. export)
+ *   - getExportKwh/getGenerationKwh(cols): optional measured export / solar generation in kWh
  *   - instructions: optional ReactNode shown in a popover explaining how to obtain the CSV
  *
  * `cols` is a Record<string, string> mapping each header name to the raw cell value for that row.
@@ -26,6 +33,11 @@ export interface CSVFormat {
   getDate: (cols: Record<string, string>) => string | undefined;
   getHour: (cols: Record<string, string>) => number | undefined;
   getKwh:  (cols: Record<string, string>) => number | undefined;
+  optionalColumns?: string[];
+  getExportKwh?: (cols: Record<string, string>) => number | undefined;
+  getGenerationKwh?: (cols: Record<string, string>) => number | undefined;
+  getMinute?: (cols: Record<string, string>) => number | undefined;
+  clockTime?: boolean;
   instructions?: ReactNode;
 }
 
@@ -37,10 +49,55 @@ function parseDMY(dateStr: string): string | undefined {
   return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
 }
 
+/** 'YYYY/MM/DD' or 'YYYY-MM-DD' → 'YYYY-MM-DD' */
+function parseYMD(dateStr: string): string | undefined {
+  const [year, month, day] = dateStr.split(/[/-]/);
+  if (!day || !month || !year) return undefined;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
 function parseEsFloat(value: string): number {
   return parseFloat(value.replace(',', '.'));
 }
 
+/** Hour column as an integer 1-25 (25 only exists on the October DST day). */
+function parseHour(value: string): number | undefined {
+  const h = parseInt(value, 10);
+  return isNaN(h) || h < 1 || h > 25 ? undefined : h;
+}
+
+/**
+ * End-of-interval 'HH:MM' → hour in 1-24 convention plus minute: '01:00' closes hour 1,
+ * '00:15' closes the first quarter of hour 1.
+ */
+function parseEndTime(value: string): { hour: number; minute: number } | undefined {
+  const [h, m = '0'] = value.split(':');
+  const hours = parseInt(h, 10);
+  const minute = parseInt(m, 10);
+  if (isNaN(hours) || isNaN(minute)) return undefined;
+  const hour = minute === 0 ? hours : hours + 1;
+  return hour >= 1 && hour <= 24 ? { hour, minute } : undefined;
+}
+
+function parseKwh(value: string | undefined, divisor = 1): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const v = parseEsFloat(value);
+  return isNaN(v) ? undefined : v / divisor;
+}
+
+/** Strip BOM, surrounding quotes and whitespace from a header or cell. */
+export function cleanCell(value: string): string {
+  return value.replace(/^\uFEFF/, '').trim().replace(/^"(.*)"$/, '$1').trim();
+}
+
+/** Case- and accent-insensitive column name, used to match headers against requiredColumns. */
+export function normalizeColumn(name: string): string {
+  return cleanCell(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
 // ── Format definitions ─────────────────────────────────────────────────────
 
 export const CSV_FORMATS: CSVFormat[] = [
@@ -52,12 +109,15 @@ export const CSV_FORMATS: CSVFormat[] = [
     getDate: (cols) => parseDMY(cols['Fecha']),
     getHour: (cols) => {
       const h = parseInt(cols['Hora'], 10);
-      return isNaN(h) ? undefined : h; // already 1-24
+      return isNaN(h) ? undefined : h; // already a day position (up to 25 on the October DST day)
     },
     getKwh: (cols) => {
       const v = parseEsFloat(cols['Consumo_kWh']);
       return isNaN(v) ? undefined : v;
     },
+    optionalColumns: ['Energia_vertida_kWh', 'Energia_generada_kWh'],
+    getExportKwh: (cols) => parseKwh(cols['Energia_vertida_kWh']),
+    getGenerationKwh: (cols) => parseKwh(cols['Energia_generada_kWh']),
     instructions: (
       <ol style={{ margin: 0, paddingLeft: '1.2em' }}>
         <li>Accede a <Link href="https://www.i-de.es/consumidores/web/guest/login" target="_blank" rel="noopener">i-de.es</Link> e inicia sesión.</li>
@@ -69,15 +129,119 @@ export const CSV_FORMATS: CSVFormat[] = [
       </ol>
     ),
   },
+  {
+    id: 'ide-monthly',
+    name: 'I-DE (descarga mensual, Wh)',
+    delimiter: ';',
+    requiredColumns: ['CUPS', 'Fecha', 'Hora', 'Consumo Wh'],
+    getDate: (cols) => parseDMY(cols['Fecha']),
+    getHour: (cols) => parseHour(cols['Hora']),
+    getKwh: (cols) => parseKwh(cols['Consumo Wh'], 1000),
+    optionalColumns: ['Vertido Wh'],
+    getExportKwh: (cols) => parseKwh(cols['Vertido Wh'], 1000),
+    instructions: (
+      <ol style={{ margin: 0, paddingLeft: '1.2em' }}>
+        <li>Accede a <Link href="https://www.i-de.es/consumidores/web/guest/login" target="_blank" rel="noopener">i-de.es</Link> e inicia sesión.</li>
+        <li>Ve a <strong>Consumo horario</strong> y elige la vista <strong>Mensual</strong>.</li>
+        <li>Descarga el CSV de cada mes: el consumo viene en Wh por hora.</li>
+        <li>Importa cada archivo por separado; en el análisis puedes seleccionar varios a la vez.</li>
+      </ol>
+    ),
+  },
+  {
+    id: 'edistribucion',
+    name: 'e-distribución (Endesa)',
+    delimiter: ';',
+    requiredColumns: ['CUPS', 'Fecha', 'Hora', 'AE_kWh'],
+    getDate: (cols) => parseDMY(cols['Fecha']),
+    getHour: (cols) => parseHour(cols['Hora']),
+    getKwh: (cols) => parseKwh(cols['AE_kWh']),
+    optionalColumns: ['AS_kWh'],
+    getExportKwh: (cols) => parseKwh(cols['AS_kWh']),
+    instructions: (
+      <ol style={{ margin: 0, paddingLeft: '1.2em' }}>
+        <li>Accede a <Link href="https://zonaprivada.edistribucion.com" target="_blank" rel="noopener">zonaprivada.edistribucion.com</Link> e inicia sesión.</li>
+        <li>Ve a <strong>Mis consumos</strong> → <strong>Consumo horario</strong>.</li>
+        <li>Selecciona el CUPS y el rango de fechas (máximo un año).</li>
+        <li>Pulsa <strong>Exportar</strong> y elige <strong>CSV</strong>.</li>
+        <li>AE es la energía consumida de la red; AS, la vertida (autoconsumo).</li>
+      </ol>
+    ),
+  },
+  {
+    id: 'ufd',
+    name: 'UFD (Naturgy)',
+    delimiter: ';',
+    requiredColumns: ['CUPS', 'Fecha', 'Hora', 'Energía Activa Entrante (kWh)'],
+    getDate: (cols) => parseDMY(cols['Fecha']),
+    getHour: (cols) => parseHour(cols['Hora']),
+    getKwh: (cols) => parseKwh(cols['Energía Activa Entrante (kWh)']),
+    optionalColumns: ['Energía Activa Saliente (kWh)'],
+    getExportKwh: (cols) => parseKwh(cols['Energía Activa Saliente (kWh)']),
+    instructions: (
+      <ol style={{ margin: 0, paddingLeft: '1.2em' }}>
+        <li>Accede al área de clientes de <Link href="https://www.ufd.es" target="_blank" rel="noopener">ufd.es</Link> e inicia sesión.</li>
+        <li>Ve a <strong>Consultar consumos</strong> y selecciona el punto de suministro.</li>
+        <li>Elige <strong>Curva horaria</strong> y el periodo deseado.</li>
+        <li>Descarga el fichero en formato <strong>CSV</strong>.</li>
+      </ol>
+    ),
+  },
+  {
+    id: 'viesgo',
+    name: 'Viesgo Distribución',
+    delimiter: ';',
+    requiredColumns: ['CUPS', 'Fecha', 'Hora', 'Consumo (kWh)'],
+    getDate: (cols) => parseDMY(cols['Fecha']),
+    getHour: (cols) => parseHour(cols['Hora']),
+    getKwh: (cols) => parseKwh(cols['Consumo (kWh)']),
+    optionalColumns: ['Vertido (kWh)'],
+    getExportKwh: (cols) => parseKwh(cols['Vertido (kWh)']),
+    instructions: (
+      <ol style={{ margin: 0, paddingLeft: '1.2em' }}>
+        <li>Accede a <Link href="https://www.viesgodistribucion.com" target="_blank" rel="noopener">viesgodistribucion.com</Link> → <strong>Área privada</strong>.</li>
+        <li>Ve a <strong>Mis consumos</strong> → <strong>Curva de carga</strong>.</li>
+        <li>Selecciona el periodo y descarga el <strong>CSV</strong>.</li>
+      </ol>
+    ),
+  },
+  {
+    id: 'datadis',
+    name: 'Datadis',
+    delimiter: ';',
+    requiredColumns: ['cups', 'date', 'time', 'consumptionKWh'],
+    getDate: (cols) => parseYMD(cols['date']),
+    getHour: (cols) => parseEndTime(cols['time'])?.hour,
+    getMinute: (cols) => parseEndTime(cols['time'])?.minute,
+    clockTime: true,
+    getKwh: (cols) => parseKwh(cols['consumptionKWh']),
+    optionalColumns: ['surplusEnergyKWh', 'generationEnergyKWh'],
+    getExportKwh: (cols) => parseKwh(cols['surplusEnergyKWh']),
+    getGenerationKwh: (cols) => parseKwh(cols['generationEnergyKWh']),
+    instructions: (
+      <ol style={{ margin: 0, paddingLeft: '1.2em' }}>
+        <li>Accede a <Link href="https://datadis.es" target="_blank" rel="noopener">datadis.es</Link> (válido para cualquier distribuidora).</li>
+        <li>Ve a <strong>Consumos</strong> y selecciona el suministro.</li>
+        <li>Elige el rango de fechas y la medida <strong>Horaria</strong> o <strong>Cuartohoraria</strong>.</li>
+        <li>Pulsa <strong>Descargar</strong> → <strong>CSV</strong>.</li>
+      </ol>
+    ),
+  },
 ];
 
 // ── Detection ──────────────────────────────────────────────────────────────
 
-/** Returns the first format whose requiredColumns are all present in the header line. */
+/**
+ * Returns the format whose requiredColumns are all present in the header line. Matching ignores
+ * BOM, quotes, case and accents. When several match, the one with most required columns wins,
+ * so a specific format is never shadowed by a more generic one.
+ */
 export function detectFormat(headerLine: string): CSVFormat | null {
+  let best: CSVFormat | null = null;
   for (const format of CSV_FORMATS) {
-    const cols = headerLine.split(format.delimiter).map((c) => c.trim());
-    if (format.requiredColumns.every((r) => cols.includes(r))) return format;
+    const cols = headerLine.split(format.delimiter).map(normalizeColumn);
+    if (!format.requiredColumns.every((r) => cols.includes(normalizeColumn(r)))) continue;
+    if (!best || format.requiredColumns.length > best.requiredColumns.length) best = format;
   }
-  return null;
+  return best;
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseConsumptionCSV } from './csvParser.ts';
+
+const DATADIS_HEADER = 'cups;date;time;consumptionKWh;obtainMethod';
+
+/** Datadis rows labelled by end-of-interval clock time, with kWh = row number for tracing. */
+function datadisCsv(date: string, times: string[]): string {
+  const rows = times.map((time, i) => `ES0000;${date.replace(/-/g, '/')};${time};${i + 1};Real`);
+  return [DATADIS_HEADER, ...rows].join('\n');
+}
+
+function clockTimes(hours: number[]): string[] {
+  return hours.map((h) => `${String(h).padStart(2, '0')}:00`);
+}
+
+describe('parseConsumptionCSV with clock-time formats', () => {
+  it('numbers the 23 hours of the March transition consecutively', () => {
+    const hours = [1, 2, ...Array.from({ length: 21 }, (_, i) => i + 4)];
+    const { records, formatId } = parseConsumptionCSV(datadisCsv('2024-03-31', clockTimes(hours)));
+    expect(formatId).toBe('datadis');
+    expect(records.map((r) => r.hour)).toEqual(Array.from({ length: 23 }, (_, i) => i + 1));
+    expect(records.every((r) => r.date === '2024-03-31')).toBe(true);
+  });
+
+  it('drops a row for the skipped March hour', () => {
+    const { records } = parseConsumptionCSV(datadisCsv('2024-03-31', clockTimes([2, 3, 4])));
+    expect(records.map((r) => [r.hour, r.kwh])).toEqual([
+      [2, 1],
+      [3, 3],
+    ]);
+  });
+
+  it('keeps both 02:00-03:00 hours of the October transition in order', () => {
+    const hours = [1, 2, 3, 3, ...Array.from({ length: 21 }, (_, i) => i + 4)];
+    const { records } = parseConsumptionCSV(datadisCsv('2024-10-27', clockTimes(hours)));
+    expect(records).toHaveLength(25);
+    expect(records.map((r) => r.hour)).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+    // The second 03:00 row (kWh 4) is the CET hour, position 4
+    expect(records[3]).toMatchObject({ hour: 4, kwh: 4 });
+  });
+
+  it('assigns quarter-hours of the repeated October hour to both positions', () => {
+    const times = ['02:15', '02:30', '02:45', '03:00', '02:15', '02:30', '02:45', '03:00'];
+    const { records } = parseConsumptionCSV(datadisCsv('2024-10-27', times));
+    expect(records.map((r) => [r.hour, r.quarter])).toEqual([
+      [3, 1],
+      [3, 2],
+      [3, 3],
+      [3, 4],
+      [4, 1],
+      [4, 2],
+      [4, 3],
+      [4, 4],
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import type { ConsumptionRecord } from '../db.ts';
-import { detectFormat, CSV_FORMATS } from './csvFormats.tsx';
+import { detectFormat, cleanCell, normalizeColumn, CSV_FORMATS } from './csvFormats.tsx';
+import { dayPositionOfClockHour, hoursInDay } from './timezone.ts';
 
 export function parseConsumptionCSV(text: string): { records: ConsumptionRecord[]; formatId: string } {
   const lines = text.trim().split('\n');
@@ -13,8 +14,16 @@ export function parseConsumptionCSV(text: string): { records: ConsumptionRecord[
     throw new Error(`Formato de CSV no reconocido. Formatos soportados: ${supported}`);
   }
 
-  const headers = headerLine.split(format.delimiter).map((h) => h.trim());
+  // Header names are mapped to the format's spelling so getters can use it regardless of case/accents
+  const knownColumns = [...format.requiredColumns, ...(format.optionalColumns ?? [])];
+  const headers = headerLine.split(format.delimiter).map((h) => {
+    const normalized = normalizeColumn(h);
+    return knownColumns.find((r) => normalizeColumn(r) === normalized) ?? cleanCell(h);
+  });
   const records: ConsumptionRecord[] = [];
+  // End-of-interval minute of each record, for formats that report time of day
+  const minutes: (number | undefined)[] = [];
+  const clockTimesSeen = new Map<string, number>();
 
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -23,16 +32,43 @@ export function parseConsumptionCSV(text: string): { records: ConsumptionRecord[
     const parts = line.split(format.delimiter);
     const cols: Record<string, string> = {};
     for (let j = 0; j < headers.length; j++) {
-      cols[headers[j]] = parts[j]?.trim() ?? '';
+      cols[headers[j]] = cleanCell(parts[j] ?? '');
     }
 
     const date = format.getDate(cols);
-    const hour = format.getHour(cols);
+    let hour = format.getHour(cols);
     const kwh  = format.getKwh(cols);
+    const minute = format.getMinute?.(cols);
 
     if (!date || hour === undefined || kwh === undefined) continue;
 
-    records.push({ date, hour, kwh });
+    if (format.clockTime) {
+      // The October transition repeats 02:00-03:00: the second occurrence is the next position
+      const seenKey = `${date}-${hour}-${minute}`;
+      const occurrence = (clockTimesSeen.get(seenKey) ?? 0) + 1;
+      clockTimesSeen.set(seenKey, occurrence);
+      hour = dayPositionOfClockHour(date, hour, occurrence);
+      if (hour === undefined) continue;
+    } else if (hour > hoursInDay(date)) {
+      continue;
+    }
+
+    const record: ConsumptionRecord = { date, hour, kwh };
+    // Only stored when the file has them, so plain consumption datasets stay compact
+    const exportKwh = format.getExportKwh?.(cols);
+    const generationKwh = format.getGenerationKwh?.(cols);
+    if (exportKwh !== undefined) record.exportKwh = exportKwh;
+    if (generationKwh !== undefined) record.generationKwh = generationKwh;
+    records.push(record);
+    minutes.push(minute);
+  }
+
+  // A file is quarter-hourly if any interval ends off the hour; then ':00' closes the 4th quarter
+  if (minutes.some((m) => m !== undefined && m !== 0)) {
+    records.forEach((r, i) => {
+      const minute = minutes[i] ?? 0;
+      r.quarter = minute === 0 ? 4 : Math.ceil(minute / 15);
+    });
   }
 
   if (records.length === 0) throw new Error('No se encontraron registros válidos en el CSV');
@@ -45,12 +81,16 @@ export function getConsumptionStats(records: ConsumptionRecord[]) {
   const days = dates.length;
   const avgDailyKwh = days > 0 ? totalKwh / days : 0;
   const maxHourKwh = Math.max(...records.map((r) => r.kwh));
+  // null when the dataset has no meter export data (plain consumption)
+  const withExport = records.filter((r) => r.exportKwh !== undefined);
+  const exportKwh = withExport.length > 0 ? withExport.reduce((sum, r) => sum + r.exportKwh!, 0) : null;
 
   return {
     totalKwh,
     days,
     avgDailyKwh,
     maxHourKwh,
+    exportKwh,
     dateRange: { from: dates[0], to: dates[dates.length - 1] },
     recordCount: records.length,
   };
@@ -1,30 +1,67 @@
-import type { CompanyOffer, TariffSchedule } from '../db.ts';
+import type { CompanyOffer, TariffRegion, TariffSchedule } from '../db.ts';
 import { resolveTariffPeriod } from './tariffSchedule.ts';
-import { ensurePvpcCached, loadPvpcPrices } from './pvpc.ts';
+import {
+  ensurePvpcCached,
+  ensurePvpcSurplusCached,
+  loadPvpcPrices,
+  loadPvpcSurplusPrices,
+  pvpcPriceKey,
+} from './pvpc.ts';
+import { ensureMarketPricesCached, getIndexedEnergyPrice, loadMarketPrices } from './marketPrices.ts';
+import type { TimeInterval } from './timeResolution.ts';
 
-export interface EnergyPriceQuery {
-  date: string;
-  hour: number;
-}
+export type EnergyPriceQuery = TimeInterval;
 
 export type EnergyPriceResolver = (queries: EnergyPriceQuery[]) => Promise<number[]>;
 
+/** Surplus compensation price (€/kWh) per interval; same contract as EnergyPriceResolver. */
+export type SurplusPriceResolver = EnergyPriceResolver;
+
+/**
+ * Per-interval price from a map keyed by pvpcPriceKey: the quarter-hour price when there is
+ * one, else the hourly one. undefined if the date is not cached.
+ */
+function lookupPrice(priceMap: Map<string, number>, { date, hour, quarter }: EnergyPriceQuery): number | undefined {
+  // hour is 1-24 (Spanish CSV convention), convert to 0-23 for the price map
+  const h = hour - 1;
+  return (
+    (quarter !== undefined ? priceMap.get(pvpcPriceKey(date, h, quarter - 1)) : undefined) ??
+    priceMap.get(pvpcPriceKey(date, h))
+  );
+}
+
+/** Cache and load OMIE prices for the queried dates, at the resolution the queries need. */
+async function loadMarketPricesFor(queries: EnergyPriceQuery[]): Promise<Map<string, number>> {
+  const dates = [...new Set(queries.map((q) => q.date))];
+  const quarterly = queries.some((q) => q.quarter !== undefined);
+  await ensureMarketPricesCached(dates, quarterly ? 'quarter-hour' : 'hour');
+  return loadMarketPrices(dates);
+}
+
+function marketPriceOrZero(priceMap: Map<string, number>, query: EnergyPriceQuery): number {
+  const price = lookupPrice(priceMap, query);
+  if (price === undefined) {
+    console.warn(`[OMIE] Precio ausente para ${query.date} hora ${query.hour - 1} — usando 0.`);
+    return 0;
+  }
+  return price;
+}
+
 export function createEnergyPriceResolver(
   offer: CompanyOffer,
   schedule: TariffSchedule | null,
+  region: TariffRegion = offer.region ?? 'peninsula',
 ): EnergyPriceResolver {
   if (offer.usePvpcPrices) {
     return async (queries) => {
       const dates = [...new Set(queries.map((q) => q.date))];
-      await ensurePvpcCached(dates);
+      const quarterly = queries.some((q) => q.quarter !== undefined);
+      await ensurePvpcCached(dates, quarterly ? 'quarter-hour' : 'hour');
       const priceMap = await loadPvpcPrices(dates);
-      return queries.map(({ date, hour }) => {
-        // hour is 1-24 (Spanish CSV convention), convert to 0-23 for the price map
-        const h = hour - 1;
-        const key = `${date}-${String(h).padStart(2, '0')}`;
-        const price = priceMap.get(key);
+      return queries.map((query) => {
+        const price = lookupPrice(priceMap, query);
         if (price === undefined) {
-          console.warn(`[PVPC] Precio ausente para ${date} hora ${h} — usando 0. Comprueba que los datos estén cacheados.`);
+          console.warn(`[PVPC] Precio ausente para ${query.date} hora ${query.hour - 1} — usando 0. Comprueba que los datos estén cacheados.`);
           return 0;
         }
         return price;
@@ -32,9 +69,80 @@ export function createEnergyPriceResolver(
     };
   }
 
+  const indexed = offer.indexedPricing;
+  if (indexed) {
+    return async (queries) => {
+      const priceMap = await loadMarketPricesFor(queries);
+      return queries.map((query) => {
+        const period = resolveTariffPeriod(schedule, query.date, query.hour, region);
+        return getIndexedEnergyPrice(indexed, marketPriceOrZero(priceMap, query), period);
+      });
+    };
+  }
+
   return async (queries) =>
     queries.map(({ date, hour }) => {
-      const period = resolveTariffPeriod(schedule, date, hour);
+      const period = resolveTariffPeriod(schedule, date, hour, region);
       return offer.prices[period] ?? 0;
     });
 }
+
+/**
+ * Deviation cost (€/kWh) the regulated PVPC surplus price subtracts from the market price
+ * (RD 244/2019, art. 14). Only used to approximate days REE has not published the surplus price for.
+ */
+export const PVPC_SURPLUS_DEVIATION_COST = 0.002;
+
+/**
+ * Surplus prices of an offer per interval, following its surplusPricing mode (see db.ts).
+ * `onWarning` is told when prices had to be approximated.
+ */
+export function createSurplusPriceResolver(
+  offer: CompanyOffer,
+  schedule: TariffSchedule | null = null,
+  region: TariffRegion = offer.region ?? 'peninsula',
+  onWarning: (message: string) => void = console.warn,
+): SurplusPriceResolver {
+  const pricing = offer.surplusPricing;
+  switch (pricing?.mode) {
+    case 'period': {
+      const prices = pricing.pricesPerPeriod ?? {};
+      return async (queries) =>
+        queries.map(({ date, hour }) => prices[resolveTariffPeriod(schedule, date, hour, region)] ?? 0);
+    }
+
+    case 'pvpc':
+      return async (queries) => {
+        const dates = [...new Set(queries.map((q) => q.date))];
+        const quarterly = queries.some((q) => q.quarter !== undefined);
+        const unavailable = new Set(await ensurePvpcSurplusCached(dates, quarterly ? 'quarter-hour' : 'hour'));
+        const priceMap = await loadPvpcSurplusPrices(dates);
+        if (unavailable.size === 0) {
+          return queries.map((query) => lookupPrice(priceMap, query) ?? 0);
+        }
+
+        onWarning(
+          `${offer.name}: REE no publica el precio de excedentes PVPC para ${unavailable.size} días; ` +
+            `se aproxima con OMIE menos ${PVPC_SURPLUS_DEVIATION_COST} €/kWh de desvíos.`,
+        );
+        const marketMap = await loadMarketPricesFor(queries.filter((q) => unavailable.has(q.date)));
+        return queries.map((query) =>
+          unavailable.has(query.date)
+            ? Math.max(0, marketPriceOrZero(marketMap, query) - PVPC_SURPLUS_DEVIATION_COST)
+            : (lookupPrice(priceMap, query) ?? 0),
+        );
+      };
+
+    case 'indexed': {
+      const discount = pricing.discountPerKwh ?? 0;
+      return async (queries) => {
+        const priceMap = await loadMarketPricesFor(queries);
+        // Negative market hours pay nothing rather than charging for the surplus
+        return queries.map((query) => Math.max(0, marketPriceOrZero(priceMap, query) - discount));
+      };
+    }
+
+    default:
+      return async (queries) => queries.map(() => offer.surplusCompensationPerKwh);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { TariffSchedule, Vehicle } from '../db.ts';
+import { generateEvLoad } from './evLoad.ts';
+
+/** 1 kW charger, 100 % efficiency: one kWh per km driven, the same every day. */
+function vehicle(fields: Partial<Vehicle>): Vehicle {
+  return {
+    name: 'Test',
+    consumptionKwhPer100Km: 100,
+    chargerPowerW: 1000,
+    chargingEfficiency: 100,
+    dailyKm: Array(7).fill(10),
+    arrivalHour: 0,
+    departureHour: 0,
+    chargingMode: 'immediate',
+    ...fields,
+  };
+}
+
+function hoursOn(load: Map<string, number>, date: string): number[] {
+  return [...load.keys()]
+    .filter((k) => k.startsWith(date))
+    .map((k) => +k.substring(11))
+    .sort((a, b) => a - b);
+}
+
+describe('generateEvLoad on DST days', () => {
+  it('skips the missing March hour and never uses position 24 of the short day', () => {
+    const load = generateEvLoad(['2024-03-31'], vehicle({ arrivalHour: 20, departureHour: 0 }), null);
+    // 20:00-24:00 on the wall clock are positions 20-23
+    expect(hoursOn(load, '2024-03-31')).toEqual([20, 21, 22, 23]);
+  });
+
+  it('ends the overnight window at the departure clock hour', () => {
+    const load = generateEvLoad(['2024-03-30'], vehicle({ arrivalHour: 22, departureHour: 6 }), null);
+    // 00:00-06:00 on the 31st is five hours long
+    expect(hoursOn(load, '2024-03-31')).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('charges in both October 02:00-03:00 hours', () => {
+    const load = generateEvLoad(['2024-10-27'], vehicle({ arrivalHour: 1, departureHour: 4 }), null);
+    expect(hoursOn(load, '2024-10-27')).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe("generateEvLoad in 'valle' mode", () => {
+  it('charges in P6 with a 3.0TD schedule', () => {
+    const schedule: TariffSchedule = { name: '3.0TD', type: '3.0TD' };
+    const car = vehicle({ dailyKm: Array(7).fill(2), arrivalHour: 12, departureHour: 12, chargingMode: 'valle' });
+    const load = generateEvLoad(['2024-01-16'], car, schedule);
+    expect(hoursOn(load, '2024-01-16')).toEqual([]);
+    expect(hoursOn(load, '2024-01-17')).toEqual([1, 2]);
+  });
+});
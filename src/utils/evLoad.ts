@@ -0,0 +1,113 @@
+import type { EvChargingMode, TariffRegion, TariffSchedule, Vehicle } from '../db.ts';
+import { resolveTariffPeriod } from './tariffSchedule.ts';
+import { getRegion } from './regions.ts';
+import { dayPositionOfClockHour } from './timezone.ts';
+
+export const EV_CHARGING_MODES: { id: EvChargingMode; name: string; description: string }[] = [
+  { id: 'immediate', name: 'Al llegar', description: 'Carga a plena potencia nada más enchufar' },
+  { id: 'valle', name: 'Periodo valle', description: 'Carga en horas valle (P6 en 3.0TD); si no bastan, en el resto' },
+  { id: 'solar', name: 'Excedentes solares', description: 'Carga con excedentes; el resto en horas valle' },
+];
+
+export const WEEKDAY_LABELS = ['L', 'M', 'X', 'J', 'V', 'S', 'D'];
+
+interface Slot {
+  date: string;
+  /** Position in the local day, 1-24 (23/25 on DST days) */
+  hour: number;
+}
+
+/** Cheapest period of each tariff: 2.0TD valle and 3.0TD P6. */
+const OFF_PEAK_PERIODS = new Set(['valle', 'P6']);
+
+function slotKey(slot: Slot): string {
+  return `${slot.date}-${slot.hour}`;
+}
+
+function nextDate(dateStr: string): string {
+  const d = new Date(dateStr + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Grid energy (kWh) needed to recharge what was driven on a given date. */
+export function getDailyChargeKwh(vehicle: Vehicle, dateStr: string): number {
+  // getUTCDay: 0 = Sunday → Monday-first index
+  const weekday = (new Date(dateStr + 'T00:00:00Z').getUTCDay() + 6) % 7;
+  const km = vehicle.dailyKm[weekday] ?? 0;
+  return (km * vehicle.consumptionKwhPer100Km) / 100 / (vehicle.chargingEfficiency / 100);
+}
+
+/**
+ * Hourly intervals during which the car is plugged in after arriving on `dateStr`. Arrival and
+ * departure are clock hours, converted to day positions: the skipped March hour has no slot and
+ * both October 02:00-03:00 hours are in the window.
+ */
+function chargingWindow(vehicle: Vehicle, dateStr: string, clockShiftHours: number): Slot[] {
+  const start = vehicle.arrivalHour + 1;
+  const end = vehicle.departureHour <= vehicle.arrivalHour ? vehicle.departureHour + 24 : vehicle.departureHour;
+  const tomorrow = nextDate(dateStr);
+  const slots: Slot[] = [];
+  for (let h = start; h <= end; h++) {
+    const date = h <= 24 ? dateStr : tomorrow;
+    const clockHour = h <= 24 ? h : h - 24;
+    for (let occurrence = 1; occurrence <= 2; occurrence++) {
+      const hour = dayPositionOfClockHour(date, clockHour, occurrence, clockShiftHours);
+      if (hour === undefined) break;
+      slots.push({ date, hour });
+    }
+  }
+  return slots;
+}
+
+/**
+ * Hourly EV charging load (kWh from the grid side of the charger), keyed `YYYY-MM-DD-H` with
+ * the hour as day position (1-24, 23/25 on DST days). Each day's driving is recharged in the
+ * window that starts when the car gets home.
+ * `surplus` gives the solar surplus available per hour; it is only used in 'solar' mode.
+ */
+export function generateEvLoad(
+  dates: string[],
+  vehicle: Vehicle,
+  schedule: TariffSchedule | null,
+  surplus?: (date: string, hour: number) => number,
+  region: TariffRegion = 'peninsula',
+): Map<string, number> {
+  const load = new Map<string, number>();
+  const chargerKw = vehicle.chargerPowerW / 1000;
+  if (chargerKw <= 0) return load;
+
+  const fill = (slots: Slot[], needed: number, limit: (slot: Slot) => number): number => {
+    for (const slot of slots) {
+      if (needed <= 0) break;
+      const key = slotKey(slot);
+      const used = load.get(key) ?? 0;
+      const kwh = Math.min(needed, chargerKw - used, limit(slot));
+      if (kwh > 0) {
+        load.set(key, used + kwh);
+        needed -= kwh;
+      }
+    }
+    return needed;
+  };
+
+  for (const date of [...new Set(dates)].sort()) {
+    let needed = getDailyChargeKwh(vehicle, date);
+    if (needed <= 0) continue;
+    const window = chargingWindow(vehicle, date, getRegion(region).clockShiftHours);
+
+    if (vehicle.chargingMode === 'solar' && surplus) {
+      needed = fill(window, needed, (slot) => surplus(slot.date, slot.hour));
+    }
+
+    if (vehicle.chargingMode === 'immediate') {
+      fill(window, needed, () => Infinity);
+    } else {
+      const isOffPeak = (slot: Slot) =>
+        OFF_PEAK_PERIODS.has(resolveTariffPeriod(schedule, slot.date, slot.hour, region));
+      fill([...window.filter(isOffPeak), ...window.filter((slot) => !isOffPeak(slot))], needed, () => Infinity);
+    }
+  }
+
+  return load;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { Battery } from '../db.ts';
+import { batteryFadeFactor, DEFAULT_BATTERY_FADE_PERCENT } from './financialProjection.ts';
+
+const battery: Battery = { name: 'Test', capacityKwh: 10, maxPowerW: 5000, roundTripEfficiency: 90 };
+
+describe('batteryFadeFactor', () => {
+  it('fades by the annual percentage without a usage estimate', () => {
+    const factor = batteryFadeFactor(battery);
+    expect(factor(1)).toBe(1);
+    expect(factor(2)).toBeCloseTo(1 - DEFAULT_BATTERY_FADE_PERCENT / 100);
+  });
+
+  it('follows the estimated fade and stops at the end of life', () => {
+    const factor = batteryFadeFactor(battery, { capacityFadePercentPerYear: 3, yearsToEndOfLife: 10.5 });
+    expect(factor(1)).toBe(1);
+    expect(factor(3)).toBeCloseTo(0.94);
+    // Eleventh year: half a year left in service
+    expect(factor(11)).toBeCloseTo(0.7 * 0.5);
+    expect(factor(12)).toBe(0);
+  });
+});
@@ -0,0 +1,267 @@
+import type { Battery, InstallationCosts, SolarInstallation } from '../db.ts';
+import type { BatteryUsage } from './battery.ts';
+
+export interface ProjectionSettings {
+  /** Projection horizon in years (typically 20-30). */
+  years: number;
+  /** Discount rate used for NPV and discounted payback, in %. */
+  discountRatePercent: number;
+  /** Annual energy-price escalation applied to savings, in %. */
+  energyInflationPercent: number;
+}
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  years: 25,
+  discountRatePercent: 3,
+  energyInflationPercent: 2,
+};
+
+/** Typical linear degradation of crystalline panels when not specified per group. */
+export const DEFAULT_PANEL_DEGRADATION_PERCENT = 0.5;
+/** Typical LFP capacity fade when not specified on the battery. */
+export const DEFAULT_BATTERY_FADE_PERCENT = 2;
+
+/**
+ * One source of savings in the projection. Savings in year n are
+ * `annualSavings × factor(n) × (1 + inflation)^(n-1)`; factor(1) should be 1.
+ * Set `escalate: false` for fixed amounts that don't follow energy prices (e.g. tax rebates).
+ */
+export interface SavingsComponent {
+  annualSavings: number;
+  factor: (year: number) => number;
+  escalate?: boolean;
+}
+
+export interface ProjectionYear {
+  year: number;
+  savings: number;
+  cumulativeCashFlow: number;
+  discountedCumulativeCashFlow: number;
+}
+
+export interface FinancialProjection {
+  investment: number;
+  years: ProjectionYear[];
+  npv: number;
+  /** Internal rate of return (fraction, e.g. 0.08 = 8%), or null if it doesn't converge. */
+  irr: number | null;
+  paybackYears: number | null;
+  discountedPaybackYears: number | null;
+  /** Net gain over the horizon relative to the investment (fraction). */
+  roi: number;
+}
+
+/**
+ * Weighted production factor for an installation in year n (1-based), using each
+ * group's Wp as weight and its own annual degradation rate.
+ */
+export function panelDegradationFactor(installation: SolarInstallation | undefined): (year: number) => number {
+  const groups = installation?.panelGroups ?? [];
+  const totalWp = groups.reduce((s, g) => s + g.peakPowerWp, 0);
+  if (totalWp <= 0) return () => 1;
+  return (year) =>
+    groups.reduce((s, g) => {
+      const d = (g.annualDegradationPercent ?? DEFAULT_PANEL_DEGRADATION_PERCENT) / 100;
+      return s + g.peakPowerWp * Math.pow(1 - d, year - 1);
+    }, 0) / totalWp;
+}
+
+/**
+ * Remaining capacity fraction of a battery in year n (1-based). With the usage estimated from the
+ * simulation, capacity fades linearly at its rate and the battery stops contributing at its end of
+ * life (pro rata in that year); otherwise it fades by the battery's annual percentage.
+ */
+export function batteryFadeFactor(
+  battery: Battery | undefined,
+  usage?: Pick<BatteryUsage, 'capacityFadePercentPerYear' | 'yearsToEndOfLife'> | null,
+): (year: number) => number {
+  const lifeYears = usage?.yearsToEndOfLife ?? null;
+  const lifeFade = usage?.capacityFadePercentPerYear ?? null;
+  if (lifeYears !== null && lifeFade !== null) {
+    return (year) => {
+      const inService = Math.min(1, Math.max(0, lifeYears - (year - 1)));
+      return (1 - (lifeFade / 100) * (year - 1)) * inService;
+    };
+  }
+  const fade = (battery?.annualCapacityFadePercent ?? DEFAULT_BATTERY_FADE_PERCENT) / 100;
+  return (year) => Math.pow(1 - fade, year - 1);
+}
+
+function npvAt(rate: number, investment: number, cashFlows: number[]): number {
+  return cashFlows.reduce((s, cf, i) => s + cf / Math.pow(1 + rate, i + 1), -investment);
+}
+
+/** IRR by bisection. NPV is monotonic in the rate for a single upfront investment. */
+function computeIrr(investment: number, cashFlows: number[]): number | null {
+  let lo = -0.99;
+  let hi = 1;
+  let npvLo = npvAt(lo, investment, cashFlows);
+  const npvHi = npvAt(hi, investment, cashFlows);
+  if (npvLo * npvHi > 0) return null;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    const npvMid = npvAt(mid, investment, cashFlows);
+    if (Math.abs(npvMid) < 1e-6) return mid;
+    if (npvLo * npvMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      npvLo = npvMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/** Fractional year at which a cumulative series (starting at -investment) crosses zero. */
+function crossingYear(investment: number, cumulative: number[]): number | null {
+  let prev = -investment;
+  for (let i = 0; i < cumulative.length; i++) {
+    if (cumulative[i] >= 0) {
+      const step = cumulative[i] - prev;
+      return i + (step > 0 ? -prev / step : 1);
+    }
+    prev = cumulative[i];
+  }
+  return null;
+}
+
+export function projectCashFlows(
+  investment: number,
+  components: SavingsComponent[],
+  settings: ProjectionSettings,
+): FinancialProjection {
+  const rate = settings.discountRatePercent / 100;
+  const inflation = settings.energyInflationPercent / 100;
+
+  const years: ProjectionYear[] = [];
+  let cumulative = -investment;
+  let discountedCumulative = -investment;
+
+  for (let y = 1; y <= settings.years; y++) {
+    const escalation = Math.pow(1 + inflation, y - 1);
+    const savings = components.reduce(
+      (s, c) => s + c.annualSavings * c.factor(y) * (c.escalate === false ? 1 : escalation),
+      0,
+    );
+    cumulative += savings;
+    discountedCumulative += savings / Math.pow(1 + rate, y);
+    years.push({
+      year: y,
+      savings,
+      cumulativeCashFlow: cumulative,
+      discountedCumulativeCashFlow: discountedCumulative,
+    });
+  }
+
+  const cashFlows = years.map((y) => y.savings);
+  return {
+    investment,
+    years,
+    npv: npvAt(rate, investment, cashFlows),
+    irr: computeIrr(investment, cashFlows),
+    paybackYears: crossingYear(investment, years.map((y) => y.cumulativeCashFlow)),
+    discountedPaybackYears: crossingYear(investment, years.map((y) => y.discountedCumulativeCashFlow)),
+    roi: investment > 0 ? cumulative / investment : 0,
+  };
+}
+
+/**
+ * Projection for adding a battery: investment is the battery price, savings are the
+ * first-year bill difference versus the same offer without battery, fading with both
+ * panel degradation and battery capacity loss (from `usage` when given).
+ */
+export function projectBatteryInvestment(
+  annualSavings: number,
+  battery: Battery,
+  installation: SolarInstallation | undefined,
+  settings: ProjectionSettings,
+  usage?: BatteryUsage | null,
+): FinancialProjection {
+  const production = panelDegradationFactor(installation);
+  const capacity = batteryFadeFactor(battery, usage);
+  return projectCashFlows(
+    battery.priceEur ?? 0,
+    [{ annualSavings, factor: (y) => production(y) * capacity(y) }],
+    settings,
+  );
+}
+
+export interface InstallationCostBreakdown {
+  panels: number;
+  inverter: number;
+  labour: number;
+  permits: number;
+  gross: number;
+  subsidy: number;
+  irpfDeduction: number;
+  /** Upfront cost after subsidies and IRPF deduction. */
+  net: number;
+}
+
+export function getInstallationCostBreakdown(
+  installation: SolarInstallation,
+  costs: InstallationCosts,
+): InstallationCostBreakdown {
+  const totalWp = installation.panelGroups.reduce((s, g) => s + g.peakPowerWp, 0);
+  const panels = totalWp * costs.panelsEurPerWp;
+  const gross = panels + costs.inverterEur + costs.labourEur + costs.permitsEur;
+  const subsidy = Math.min(costs.subsidyEur, gross);
+  const deductionBase = Math.min(gross - subsidy, costs.irpfDeductionMaxBaseEur ?? Infinity);
+  const irpfDeduction = deductionBase * (costs.irpfDeductionPercent / 100);
+  return {
+    panels,
+    inverter: costs.inverterEur,
+    labour: costs.labourEur,
+    permits: costs.permitsEur,
+    gross,
+    subsidy,
+    irpfDeduction,
+    net: gross - subsidy - irpfDeduction,
+  };
+}
+
+/**
+ * Projection for the whole PV system against a "no solar" baseline on the same offer.
+ * Investment is the net installation cost plus the battery price (if any). Solar savings
+ * follow panel degradation; the battery's extra savings also fade with its capacity and end at its
+ * estimated end of life.
+ * IBI rebates are added as fixed, non-escalating income.
+ */
+export function projectSystemInvestment(
+  costs: {
+    /** Annual bill without panels. */
+    baseline: number;
+    /** Annual bill with panels, no battery. */
+    withSolar: number;
+    /** Annual bill with panels and battery, when a battery is part of the system. */
+    withBattery?: number;
+  },
+  installation: SolarInstallation,
+  installationCosts: InstallationCosts,
+  battery: Battery | undefined,
+  settings: ProjectionSettings,
+  batteryUsage?: BatteryUsage | null,
+): FinancialProjection {
+  const production = panelDegradationFactor(installation);
+  const capacity = batteryFadeFactor(battery, batteryUsage);
+  const breakdown = getInstallationCostBreakdown(installation, installationCosts);
+
+  const components: SavingsComponent[] = [
+    { annualSavings: costs.baseline - costs.withSolar, factor: production },
+  ];
+  if (battery && costs.withBattery !== undefined) {
+    components.push({
+      annualSavings: costs.withSolar - costs.withBattery,
+      factor: (y) => production(y) * capacity(y),
+    });
+  }
+  if (installationCosts.ibiRebateEurPerYear > 0) {
+    components.push({
+      annualSavings: installationCosts.ibiRebateEurPerYear,
+      factor: (y) => (y <= installationCosts.ibiRebateYears ? 1 : 0),
+      escalate: false,
+    });
+  }
+
+  return projectCashFlows(breakdown.net + (battery?.priceEur ?? 0), components, settings);
+}
@@ -0,0 +1,91 @@
+import type { CopPoint, HeatPump, SolarInstallation } from '../db.ts';
+import { parsePVGISTime } from './pvgis.ts';
+import { utcHourKey } from './timezone.ts';
+
+/** Outdoor temperature (°C) per UTC "MM-DD-HH" key (see timezone.ts), averaged across PVGIS years. */
+export type TemperatureIndex = Record<string, number>;
+
+export const DEFAULT_GAS_BOILER_EFFICIENCY = 90;
+
+/**
+ * Build the temperature index from the T2m column of the installation's PVGIS data.
+ * T2m is the same for every panel group, so only the first group is read.
+ */
+export function buildTemperatureIndex(installation: SolarInstallation): TemperatureIndex {
+  const records = installation.pvgisData?.[0]?.hourlyData ?? [];
+  const sums: Record<string, number> = {};
+  const counts: Record<string, number> = {};
+
+  for (const record of records) {
+    const key = utcHourKey(parsePVGISTime(record.time).utcMs);
+    sums[key] = (sums[key] ?? 0) + record.T2m;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+
+  const index: TemperatureIndex = {};
+  for (const key of Object.keys(sums)) index[key] = sums[key] / counts[key];
+  return index;
+}
+
+/** Interpolate COP at an outdoor temperature. Temperatures outside the curve use the nearest point. */
+export function copAt(curve: CopPoint[], outdoorTempC: number): number {
+  if (curve.length === 0) return 1;
+  const points = [...curve].sort((a, b) => a.outdoorTempC - b.outdoorTempC);
+  if (outdoorTempC <= points[0].outdoorTempC) return points[0].cop;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (outdoorTempC <= b.outdoorTempC) {
+      const t = (outdoorTempC - a.outdoorTempC) / (b.outdoorTempC - a.outdoorTempC);
+      return a.cop + t * (b.cop - a.cop);
+    }
+  }
+  return points[points.length - 1].cop;
+}
+
+export interface HeatPumpHour {
+  /** Electricity drawn by the heat pump (kWh). */
+  electricKwh: number;
+  /** Heat delivered for space heating and hot water (kWh) — what a gas boiler would have produced. */
+  heatingThermalKwh: number;
+}
+
+/**
+ * Degree-hour model for one hour: heat demand is UA × (balance temperature − outdoor),
+ * cooling demand is UA × (outdoor − cooling balance temperature). Hot water is added
+ * to the heating side at the same COP.
+ */
+export function heatPumpHour(heatPump: HeatPump, outdoorTempC: number): HeatPumpHour {
+  const ua = heatPump.heatLossWPerK / 1000;
+  const heatingKwh =
+    ua * Math.max(0, heatPump.heatingBalanceTempC - outdoorTempC) + (heatPump.dhwKwhPerDay ?? 0) / 24;
+  const coolingKwh =
+    heatPump.coolingBalanceTempC !== undefined ? ua * Math.max(0, outdoorTempC - heatPump.coolingBalanceTempC) : 0;
+
+  const cop = Math.max(copAt(heatPump.copCurve, outdoorTempC), 1);
+  const eer = Math.max(heatPump.coolingEer, 1);
+  return {
+    electricKwh: heatingKwh / cop + coolingKwh / eer,
+    heatingThermalKwh: heatingKwh,
+  };
+}
+
+/** Gas cost of producing the same heat with the boiler being replaced, or null without a gas price. */
+export function getAvoidedGasCost(heatPump: HeatPump, heatingThermalKwh: number): number | null {
+  if (heatPump.gasPriceEurPerKwh === undefined) return null;
+  const efficiency = (heatPump.gasBoilerEfficiency ?? DEFAULT_GAS_BOILER_EFFICIENCY) / 100;
+  return (heatingThermalKwh / efficiency) * heatPump.gasPriceEurPerKwh;
+}
+
+/** Parse a curve typed as "-7:2.5, 2:3.2, 7:4" (outdoor °C:COP). Invalid pairs are ignored. */
+export function parseCopCurve(text: string): CopPoint[] {
+  return text
+    .split(',')
+    .map((pair) => pair.split(':').map((v) => parseFloat(v.trim())))
+    .filter(([temp, cop]) => !isNaN(temp) && !isNaN(cop))
+    .map(([outdoorTempC, cop]) => ({ outdoorTempC, cop }));
+}
+
+export function formatCopCurve(curve: CopPoint[]): string {
+  return curve.map((p) => `${p.outdoorTempC}:${p.cop}`).join(', ');
+}
@@ -0,0 +1,136 @@
+/**
+ * Spanish holiday calendar.
+ *
+ * Holiday entries (as stored in TariffSchedule.holidays) are one of:
+ *   - 'MM-DD'       every year on that date
+ *   - 'YYYY-MM-DD'  that date only
+ *   - a movable holiday id from MOVABLE_HOLIDAYS, computed from Easter each year
+ */
+
+export interface Holiday {
+  /** YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+// National holidays with a fixed date that the autonomous communities cannot replace.
+// These are the only holidays 2.0TD treats as valle all day (CNMC Circular 3/2020).
+const FIXED_NATIONAL_HOLIDAYS: { mmdd: string; name: string }[] = [
+  { mmdd: '01-01', name: 'Año Nuevo' },
+  { mmdd: '01-06', name: 'Epifanía' },
+  { mmdd: '05-01', name: 'Día del Trabajador' },
+  { mmdd: '08-15', name: 'Asunción' },
+  { mmdd: '10-12', name: 'Fiesta Nacional' },
+  { mmdd: '11-01', name: 'Todos los Santos' },
+  { mmdd: '12-06', name: 'Constitución' },
+  { mmdd: '12-08', name: 'Inmaculada' },
+  { mmdd: '12-25', name: 'Navidad' },
+];
+
+export const MOVABLE_HOLIDAYS: { id: string; name: string; easterOffsetDays: number }[] = [
+  { id: 'jueves-santo', name: 'Jueves Santo', easterOffsetDays: -3 },
+  { id: 'viernes-santo', name: 'Viernes Santo', easterOffsetDays: -2 },
+  { id: 'lunes-pascua', name: 'Lunes de Pascua', easterOffsetDays: 1 },
+  { id: 'lunes-pentecostes', name: 'Lunes de Pentecostés', easterOffsetDays: 50 },
+  { id: 'corpus-christi', name: 'Corpus Christi', easterOffsetDays: 60 },
+];
+
+/** Easter Sunday (Gregorian calendar, anonymous algorithm) as YYYY-MM-DD. */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function movableHolidayDate(id: string, year: number): string | undefined {
+  const holiday = MOVABLE_HOLIDAYS.find((h) => h.id === id);
+  return holiday && addDays(easterSunday(year), holiday.easterOffsetDays);
+}
+
+/** National holidays of a year: the fixed ones plus Good Friday (common to every community). */
+export function getNationalHolidays(year: number): Holiday[] {
+  return [
+    ...FIXED_NATIONAL_HOLIDAYS.map((h) => ({ date: `${year}-${h.mmdd}`, name: h.name })),
+    { date: movableHolidayDate('viernes-santo', year)!, name: 'Viernes Santo' },
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Day treated as a holiday by the 2.0TD periods: fixed, non-replaceable national holidays only. */
+export function is20TDHoliday(date: string): boolean {
+  const mmdd = date.substring(5);
+  return FIXED_NATIONAL_HOLIDAYS.some((h) => h.mmdd === mmdd);
+}
+
+/** Dates (YYYY-MM-DD) that holiday entries fall on in a given year. Unknown entries are ignored. */
+export function resolveHolidayEntries(entries: string[], year: number): string[] {
+  return entries
+    .map((entry) => {
+      if (/^\d{2}-\d{2}$/.test(entry)) return `${year}-${entry}`;
+      if (/^\d{4}-\d{2}-\d{2}$/.test(entry)) return entry.startsWith(`${year}-`) ? entry : undefined;
+      return movableHolidayDate(entry, year);
+    })
+    .filter((d): d is string => d !== undefined);
+}
+
+const calendarCache = new Map<string, Set<string>>();
+
+/** National calendar (including Good Friday) plus the given extra entries, e.g. regional holidays. */
+export function isHoliday(date: string, extraHolidays: string[] = []): boolean {
+  const year = parseInt(date.substring(0, 4), 10);
+  const cacheKey = `${year}|${extraHolidays.join(',')}`;
+  let dates = calendarCache.get(cacheKey);
+  if (!dates) {
+    dates = new Set([
+      ...getNationalHolidays(year).map((h) => h.date),
+      ...resolveHolidayEntries(extraHolidays, year),
+    ]);
+    calendarCache.set(cacheKey, dates);
+  }
+  return dates.has(date);
+}
+
+/**
+ * Parse what a user typed into an entry: 'DD/MM', 'DD/MM/AAAA' or a movable holiday name or id.
+ * Returns null if it is not recognised.
+ */
+export function parseHolidayEntry(text: string): string | null {
+  const value = text.trim();
+  const movable = MOVABLE_HOLIDAYS.find((h) => h.id === value || h.name.toLowerCase() === value.toLowerCase());
+  if (movable) return movable.id;
+
+  const match = value.match(/^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{4}))?$/);
+  if (!match) return null;
+  const [, dd, mm, yyyy] = match;
+  const day = parseInt(dd, 10);
+  const month = parseInt(mm, 10);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const mmdd = `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return yyyy ? `${yyyy}-${mmdd}` : mmdd;
+}
+
+/** Display form of a stored entry: 'DD/MM', 'DD/MM/AAAA' or the movable holiday's name. */
+export function formatHolidayEntry(entry: string): string {
+  const movable = MOVABLE_HOLIDAYS.find((h) => h.id === entry);
+  if (movable) return movable.name;
+  const parts = entry.split('-');
+  if (parts.length === 2) return `${parts[1]}/${parts[0]}`;
+  return `${parts[2]}/${parts[1]}/${parts[0]}`;
+}
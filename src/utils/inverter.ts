@@ -0,0 +1,73 @@
+import type { Inverter, InverterEfficiencyPoint, SolarInstallation } from '../db.ts';
+
+/**
+ * Interpolate inverter efficiency (0-1) at a given load (% of nominal AC power).
+ * Loads outside the curve use the nearest point. No curve → 1 (losses already in PVGIS).
+ */
+export function inverterEfficiency(curve: InverterEfficiencyPoint[] | undefined, loadPercent: number): number {
+  if (!curve || curve.length === 0) return 1;
+  const points = [...curve].sort((a, b) => a.loadPercent - b.loadPercent);
+  if (loadPercent <= points[0].loadPercent) return points[0].efficiencyPercent / 100;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (loadPercent <= b.loadPercent) {
+      const t = (loadPercent - a.loadPercent) / (b.loadPercent - a.loadPercent);
+      return (a.efficiencyPercent + t * (b.efficiencyPercent - a.efficiencyPercent)) / 100;
+    }
+  }
+  return points[points.length - 1].efficiencyPercent / 100;
+}
+
+/**
+ * Convert one hour of DC energy (kWh ≈ average kW) to AC through an inverter.
+ * Returns the AC energy delivered and the energy clipped at the nominal AC limit.
+ */
+export function convertThroughInverter(dcKwh: number, inverter: Inverter): { acKwh: number; clippedKwh: number } {
+  const nominalKw = inverter.nominalAcPowerW / 1000;
+  if (dcKwh <= 0 || nominalKw <= 0) return { acKwh: 0, clippedKwh: 0 };
+  const efficiency = inverterEfficiency(inverter.efficiencyCurve, (dcKwh / nominalKw) * 100);
+  const acKwh = dcKwh * efficiency;
+  const clippedKwh = Math.max(0, acKwh - nominalKw);
+  return { acKwh: acKwh - clippedKwh, clippedKwh };
+}
+
+/** DC/AC ratio: installed Wp of the groups wired to the inverter over its nominal AC power. */
+export function getDcAcRatio(installation: Pick<SolarInstallation, 'panelGroups'>, inverter: Inverter): number {
+  const dcWp = installation.panelGroups
+    .filter((g) => g.inverterName === inverter.name)
+    .reduce((s, g) => s + g.peakPowerWp, 0);
+  return inverter.nominalAcPowerW > 0 ? dcWp / inverter.nominalAcPowerW : 0;
+}
+
+/** Human-readable problems with inverter assignments (MPPT over-subscription, dangling names). */
+export function validateInverters(installation: Pick<SolarInstallation, 'panelGroups' | 'inverters'>): string[] {
+  const errors: string[] = [];
+  const inverters = installation.inverters ?? [];
+  for (const inv of inverters) {
+    const groups = installation.panelGroups.filter((g) => g.inverterName === inv.name).length;
+    if (groups > inv.mpptInputs) {
+      errors.push(`El inversor "${inv.name}" tiene ${groups} grupos asignados pero solo ${inv.mpptInputs} MPPT`);
+    }
+  }
+  for (const g of installation.panelGroups) {
+    if (g.inverterName && !inverters.some((inv) => inv.name === g.inverterName)) {
+      errors.push(`El grupo "${g.name}" está asignado a un inversor inexistente ("${g.inverterName}")`);
+    }
+  }
+  return errors;
+}
+
+/** Parse a curve typed as "10:95, 20:96.5, 100:97" (load%:efficiency%). Invalid pairs are ignored. */
+export function parseEfficiencyCurve(text: string): InverterEfficiencyPoint[] | undefined {
+  const points = text
+    .split(',')
+    .map((pair) => pair.split(':').map((v) => parseFloat(v.trim().replace(',', '.'))))
+    .filter(([load, eff]) => !isNaN(load) && !isNaN(eff))
+    .map(([loadPercent, efficiencyPercent]) => ({ loadPercent, efficiencyPercent }));
+  return points.length > 0 ? points : undefined;
+}
+
+export function formatEfficiencyCurve(curve: InverterEfficiencyPoint[] | undefined): string {
+  return (curve ?? []).map((p) => `${p.loadPercent}:${p.efficiencyPercent}`).join(', ');
+}
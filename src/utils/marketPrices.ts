@@ -0,0 +1,47 @@
+import { db, type IndexedPricing } from '../db.ts';
+import {
+  buildPriceMap,
+  contiguousDateRanges,
+  fetchReeDailyPrices,
+  REE_SERIES_SPOT,
+  type PvpcResolution,
+} from './pvpc.ts';
+
+/**
+ * OMIE day-ahead prices, taken from REE's spot series and cached in the marketPrices table.
+ * Keys and layout are the same as PVPC (see pvpcPriceKey).
+ */
+export async function ensureMarketPricesCached(dates: string[], resolution: PvpcResolution = 'hour'): Promise<void> {
+  const existing = await db.marketPrices.where('date').anyOf(dates).toArray();
+  const existingSet = new Set(
+    existing.filter((p) => resolution === 'hour' || p.quarterPrices).map((p) => p.date),
+  );
+  const missing = dates.filter((d) => !existingSet.has(d)).sort();
+
+  for (const range of contiguousDateRanges(missing)) {
+    const dailyPrices = await fetchReeDailyPrices(REE_SERIES_SPOT, range.start, range.end, resolution);
+    if (dailyPrices.length > 0) {
+      await db.marketPrices.bulkPut(dailyPrices);
+    }
+  }
+}
+
+export async function loadMarketPrices(dates: string[]): Promise<Map<string, number>> {
+  return buildPriceMap(await db.marketPrices.where('date').anyOf(dates).toArray());
+}
+
+export const DEFAULT_INDEXED_PRICING: IndexedPricing = {
+  marketAdderPerKwh: 0.015,
+  lossesPercent: 15,
+  tollsPerKwh: {},
+  marginPerKwh: 0.01,
+};
+
+/** Energy price of an indexed offer for one interval (€/kWh). */
+export function getIndexedEnergyPrice(pricing: IndexedPricing, marketPrice: number, period: string): number {
+  return (
+    (marketPrice + pricing.marketAdderPerKwh) * (1 + pricing.lossesPercent / 100) +
+    (pricing.tollsPerKwh[period] ?? 0) +
+    pricing.marginPerKwh
+  );
+}
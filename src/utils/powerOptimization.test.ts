@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { CompanyOffer } from '../db.ts';
+import type { HourlySimResult } from './billCalculator.ts';
+import { HOURLY_PEAK_MARGIN, optimizeContractedPower } from './powerOptimization.ts';
+import type { SimulationResult } from './simulation.ts';
+
+const offer = { contractedPowerKw: 20, powerPrices: {} } as unknown as CompanyOffer;
+
+function hour(powerPeriod: string, fields: Partial<HourlySimResult>): HourlySimResult {
+  return {
+    date: '2024-01-15',
+    hour: 1,
+    powerPeriod,
+    consumption: 0,
+    solarProduction: 0,
+    batteryCharge: 0,
+    gridPurchase: 0,
+    powerTermPrice: 0.1,
+    ...fields,
+  } as HourlySimResult;
+}
+
+function optimize(hourlyResults: HourlySimResult[]) {
+  return optimizeContractedPower({ hourlyResults } as SimulationResult, offer);
+}
+
+describe('optimizeContractedPower', () => {
+  it('ignores solar production but counts the simulated battery discharge', () => {
+    const { periods } = optimize([
+      hour('P1', { consumption: 4, solarProduction: 3, gridPurchase: 1 }),
+      hour('P2', { consumption: 4, batteryCharge: -1, gridPurchase: 3 }),
+    ]);
+    expect(periods.map((p) => p.peakDemandKw)).toEqual([4, 3]);
+    expect(periods[0].recommendedKw).toBe(4 * HOURLY_PEAK_MARGIN);
+  });
+
+  it('keeps the 3.0TD powers non-decreasing from P1 to P6 with P6 of at least 15.1 kW', () => {
+    const demand = [8, 6, 10, 4, 9, 2];
+    const { periods } = optimize(demand.map((kw, i) => hour(`P${i + 1}`, { consumption: kw, gridPurchase: kw })));
+    const recommended = periods.map((p) => p.recommendedKw);
+    expect(recommended).toEqual([10, 10, 12.5, 12.5, 12.5, 15.1]);
+    recommended.slice(1).forEach((kw, i) => expect(kw).toBeGreaterThanOrEqual(recommended[i]));
+  });
+});
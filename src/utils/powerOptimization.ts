@@ -0,0 +1,131 @@
+import type { CompanyOffer } from '../db.ts';
+import { calculateExcessPower, getContractedPower, type HourlySimResult } from './billCalculator.ts';
+import type { SimulationResult } from './simulation.ts';
+import { getIntervalHours } from './timeResolution.ts';
+
+/**
+ * Headroom over the highest average demand. An hourly average hides the short peaks that trip
+ * the ICP (or count as excess in 3.0TD), so hourly data needs a wider margin than quarter-hours.
+ */
+export const HOURLY_PEAK_MARGIN = 1.25;
+export const QUARTER_HOUR_PEAK_MARGIN = 1.1;
+
+/** 3.0TD requires at least one period above this contracted power (kW). */
+const MIN_MAX_POWER_30TD = 15.1;
+
+export interface PowerPeriodRecommendation {
+  period: string;
+  currentKw: number;
+  /** Highest average demand of an interval in the period without solar (kW), see peakDemandKwh. */
+  peakDemandKw: number;
+  /** Maximeter reading entered by the user, if any (kW). */
+  maximeterKw: number | null;
+  recommendedKw: number;
+  currentCost: number;
+  recommendedCost: number;
+}
+
+export interface PowerOptimization {
+  periods: PowerPeriodRecommendation[];
+  /** Power term plus excess-power penalties (3.0TD) with the current contract. */
+  currentCost: number;
+  recommendedCost: number;
+  annualSavings: number;
+  /** Peaks come from hourly averages, so the wider margin was applied. */
+  hourlyData: boolean;
+}
+
+function roundUpKw(kw: number): number {
+  return Math.ceil(kw * 10 - 1e-9) / 10;
+}
+
+/** Power term plus excess penalties of a contract over the simulated intervals, billed per month. */
+function contractCost(hourlyResults: HourlySimResult[], offer: CompanyOffer, contractedPowerKw: Record<string, number>) {
+  const contract = { ...offer, contractedPowerKw };
+  const byPeriod: Record<string, number> = {};
+  const byMonth = new Map<string, HourlySimResult[]>();
+  for (const h of hourlyResults) {
+    // Same price the simulation used: PVPC regulated power prices or the offer's powerPrices
+    const cost = (h.powerTermPrice * getContractedPower(contract, h.powerPeriod) * getIntervalHours(h)) / 24;
+    byPeriod[h.powerPeriod] = (byPeriod[h.powerPeriod] ?? 0) + cost;
+    const month = h.date.substring(0, 7);
+    if (!byMonth.has(month)) byMonth.set(month, []);
+    byMonth.get(month)!.push(h);
+  }
+  const excess = [...byMonth.values()].reduce((s, hours) => s + calculateExcessPower(hours, contract), 0);
+  const total = Object.values(byPeriod).reduce((s, v) => s + v, 0) + excess;
+  return { byPeriod, total };
+}
+
+/**
+ * Worst-case grid demand of an interval (kWh): the measured consumption plus the EV and heat-pump
+ * loads, with no solar (production is a multi-year average, and a cloudy day must not trip the
+ * ICP). Only the battery discharge the simulation delivered counts as peak shaving, as its SoC
+ * covered it; grid charging adds to the demand.
+ */
+function peakDemandKwh(h: HourlySimResult): number {
+  const discharge = Math.max(0, -h.batteryCharge);
+  const gridCharge =
+    h.batteryCharge > 0 ? Math.max(0, h.gridPurchase - Math.max(0, h.consumption - h.solarProduction)) : 0;
+  return Math.max(h.gridPurchase, h.consumption - discharge + gridCharge);
+}
+
+/**
+ * Minimum safe contracted power per power period for a simulated scenario: the highest
+ * worst-case demand (times a margin) or the maximeter reading, whichever is higher, rounded up
+ * to 0.1 kW. Savings compare the annual power term against the offer's current contract.
+ */
+export function optimizeContractedPower(
+  result: SimulationResult,
+  offer: CompanyOffer,
+  maximeterKw: Record<string, number> = {},
+): PowerOptimization {
+  const { hourlyResults } = result;
+  const hourlyData = hourlyResults.some((h) => h.quarter === undefined);
+  const margin = hourlyData ? HOURLY_PEAK_MARGIN : QUARTER_HOUR_PEAK_MARGIN;
+
+  const peaks = new Map<string, number>();
+  for (const h of hourlyResults) {
+    const demandKw = peakDemandKwh(h) / getIntervalHours(h);
+    peaks.set(h.powerPeriod, Math.max(peaks.get(h.powerPeriod) ?? 0, demandKw));
+  }
+  const periods = [...peaks.keys()].sort();
+
+  const current: Record<string, number> = {};
+  const recommended: Record<string, number> = {};
+  for (const period of periods) {
+    current[period] = getContractedPower(offer, period);
+    const reading = maximeterKw[period] ?? 0;
+    recommended[period] = roundUpKw(Math.max(peaks.get(period)! * margin, reading, 0.1));
+  }
+
+  // 3.0TD: powers must not decrease from P1 to P6 and one of them must exceed 15 kW
+  if (periods.every((p) => /^P[1-6]$/.test(p))) {
+    let floor = 0;
+    for (const period of periods) {
+      floor = Math.max(floor, recommended[period]);
+      recommended[period] = floor;
+    }
+    const last = periods[periods.length - 1];
+    if (last && recommended[last] < MIN_MAX_POWER_30TD) recommended[last] = MIN_MAX_POWER_30TD;
+  }
+
+  const currentCost = contractCost(hourlyResults, offer, current);
+  const recommendedCost = contractCost(hourlyResults, offer, recommended);
+
+  return {
+    periods: periods.map((period) => ({
+      period,
+      currentKw: current[period],
+      peakDemandKw: peaks.get(period)!,
+      maximeterKw: maximeterKw[period] ?? null,
+      recommendedKw: recommended[period],
+      currentCost: currentCost.byPeriod[period] ?? 0,
+      recommendedCost: recommendedCost.byPeriod[period] ?? 0,
+    })),
+    currentCost: currentCost.total,
+    recommendedCost: recommendedCost.total,
+    annualSavings: currentCost.total - recommendedCost.total,
+    hourlyData,
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { applyPromotion, DEFAULT_PROMOTION, getEarlyExitPenalty } from './promotions.ts';
+
+describe('applyPromotion', () => {
+  it('discounts the promotional energy term and the power term', () => {
+    const promotion = { ...DEFAULT_PROMOTION, promoPricePerKwh: 0.1, promoPriceMonths: 3, discountPercent: 10 };
+    expect(applyPromotion(promotion, 0, 50, 20, 200)).toEqual({ energyCost: 20, discount: 4 });
+    // Promotional price over, percentage discount still running
+    expect(applyPromotion(promotion, 3, 50, 20, 200).discount).toBeCloseTo(7);
+    expect(applyPromotion(promotion, 12, 50, 20, 200)).toEqual({ energyCost: 50, discount: 0 });
+  });
+
+  it('credits the welcome amount on the first bill only', () => {
+    const promotion = { ...DEFAULT_PROMOTION, welcomeCredit: 30 };
+    expect(applyPromotion(promotion, 0, 50, 20, 200).discount).toBe(30);
+    expect(applyPromotion(promotion, 1, 50, 20, 200).discount).toBe(0);
+  });
+});
+
+describe('getEarlyExitPenalty', () => {
+  it('charges the penalty only before the minimum stay is over', () => {
+    const promotion = { ...DEFAULT_PROMOTION, permanenceMonths: 24, earlyExitPenalty: 60 };
+    expect(getEarlyExitPenalty(promotion, 12)).toBe(60);
+    expect(getEarlyExitPenalty(promotion, 24)).toBe(0);
+    expect(getEarlyExitPenalty(undefined, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import type { OfferPromotion } from '../db.ts';
+
+export const DEFAULT_PROMOTION: OfferPromotion = {
+  promoPriceMonths: 0,
+  discountPercent: 0,
+  discountMonths: 12,
+  welcomeCredit: 0,
+  permanenceMonths: 12,
+  earlyExitPenalty: 0,
+};
+
+export interface PromotionAdjustment {
+  /** Energy term of the month, at the promotional price while it lasts. */
+  energyCost: number;
+  /** Percentage discount plus welcome credit (positive amount, subtracted before taxes). */
+  discount: number;
+}
+
+/**
+ * Promotion applied to one monthly bill; contractMonth is 0 for the first billed month. The
+ * percentage discount applies to the power term and to the energy term after any promotional price.
+ */
+export function applyPromotion(
+  promotion: OfferPromotion,
+  contractMonth: number,
+  energyCost: number,
+  powerTerm: number,
+  purchasedKwh: number,
+): PromotionAdjustment {
+  const promoEnergyCost =
+    promotion.promoPricePerKwh !== undefined && contractMonth < promotion.promoPriceMonths
+      ? purchasedKwh * promotion.promoPricePerKwh
+      : energyCost;
+  const discountRate = contractMonth < promotion.discountMonths ? promotion.discountPercent / 100 : 0;
+  const welcomeCredit = contractMonth === 0 ? promotion.welcomeCredit : 0;
+  return {
+    energyCost: promoEnergyCost,
+    discount: (promoEnergyCost + powerTerm) * discountRate + welcomeCredit,
+  };
+}
+
+/**
+ * Permanence penalty owed when leaving the offer after `monthsElapsed` months: the full
+ * earlyExitPenalty while the minimum stay is not over, nothing afterwards.
+ */
+export function getEarlyExitPenalty(promotion: OfferPromotion | undefined, monthsElapsed: number): number {
+  if (!promotion || monthsElapsed >= promotion.permanenceMonths) return 0;
+  return promotion.earlyExitPenalty;
+}
+
+/** Short Spanish summary of an offer's promotion and permanence, for chips and captions. */
+export function describePromotion(promotion: OfferPromotion): string[] {
+  const parts: string[] = [];
+  if (promotion.promoPricePerKwh !== undefined && promotion.promoPriceMonths > 0) {
+    parts.push(`${promotion.promoPriceMonths} meses a ${promotion.promoPricePerKwh} €/kWh`);
+  }
+  if (promotion.discountPercent > 0 && promotion.discountMonths > 0) {
+    parts.push(`-${promotion.discountPercent}% ${promotion.discountMonths} meses`);
+  }
+  if (promotion.welcomeCredit > 0) parts.push(`${promotion.welcomeCredit} € de bienvenida`);
+  if (promotion.permanenceMonths > 0) {
+    parts.push(`Permanencia ${promotion.permanenceMonths} meses (${promotion.earlyExitPenalty} €)`);
+  }
+  return parts;
+}
@@ -1,4 +1,5 @@
 import type { PVGISHourlyRecord, PanelGroup } from '../db.ts';
+import { toLocalHour } from './timezone.ts';
 
 const PVGIS_BASE = import.meta.env.DEV
   ? '/api/pvgis/seriescalc'
@@ -67,69 +68,33 @@ export function parsePVGISJson(json: PVGISResponse): PVGISHourlyRecord[] {
   }));
 }
 
-const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
-
-function daysInMonth(year: number, month: number): number {
-  if (month === 2 && (year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0))) return 29;
-  return DAYS_IN_MONTH[month - 1];
-}
-
-/** Last Sunday of a given month (1-based). EU DST rule. */
-function lastSunday(year: number, month: number): number {
-  const last = daysInMonth(year, month);
-  const dow = new Date(year, month - 1, last).getDay(); // 0=Sunday
-  return last - dow;
-}
-
-/** UTC offset for Europe/Madrid: +1 (CET) or +2 (CEST). */
-function spainOffset(year: number, month: number, day: number, utcHour: number): number {
-  if (month >= 4 && month <= 9) return 2;
-  if (month <= 2 || month >= 11) return 1;
-  if (month === 3) {
-    const ls = lastSunday(year, 3);
-    if (day < ls) return 1;
-    if (day > ls) return 2;
-    return utcHour < 1 ? 1 : 2; // transition at 01:00 UTC
-  }
-  // October
-  const ls = lastSunday(year, 10);
-  if (day < ls) return 2;
-  if (day > ls) return 1;
-  return utcHour < 1 ? 2 : 1;
-}
-
 /**
- * Parse a PVGIS timestamp (UTC) and convert to Europe/Madrid local time.
- * PVGIS format: "YYYYMMDD:HHMM" where HHMM is UTC.
- * Returns month, day, and hour in Spanish 1-24 convention
- * (hora 1 = 00:00-01:00 local, hora 24 = 23:00-00:00 local).
+ * Parse a PVGIS timestamp (UTC) and place it on the Europe/Madrid timeline.
+ * PVGIS format: "YYYYMMDD:HHMM" where HHMM is UTC; minutes ≥ 30 belong to the next hour.
+ * Returns the UTC start of the hour, plus its local month, day and hour position in the local
+ * day (1-based, see timezone.ts). utcHour is kept for shadow calculations (sun position ≈ UTC).
  */
-export function parsePVGISTime(time: string): { month: number; day: number; hour: number; utcHour: number } {
+export function parsePVGISTime(time: string): {
+  utcMs: number;
+  month: number;
+  day: number;
+  hour: number;
+  utcHour: number;
+} {
   const year = parseInt(time.substring(0, 4), 10);
   const month = parseInt(time.substring(4, 6), 10);
   const day = parseInt(time.substring(6, 8), 10);
   const hourMin = time.substring(9);
-  let utcHour = parseInt(hourMin.substring(0, 2), 10);
   const min = parseInt(hourMin.substring(2, 4), 10);
-  if (min >= 30) utcHour += 1;
-
-  // Convert UTC to Europe/Madrid local time (CET=UTC+1, CEST=UTC+2)
-  const offset = spainOffset(year, month, day, utcHour);
-  let localHour = utcHour + offset;
-  let localDay = day;
-  let localMonth = month;
+  const utcHour = parseInt(hourMin.substring(0, 2), 10) + (min >= 30 ? 1 : 0);
 
-  if (localHour >= 24) {
-    localHour -= 24;
-    const dim = daysInMonth(year, month);
-    localDay += 1;
-    if (localDay > dim) {
-      localDay = 1;
-      localMonth = month === 12 ? 1 : month + 1;
-    }
-  }
-
-  // Spanish consumption convention: hora 1 = 00:00-01:00, hora 24 = 23:00-00:00
-  // utcHour preserved for shadow calculations (sun position ≈ UTC for Spain)
-  return { month: localMonth, day: localDay, hour: localHour + 1, utcHour };
+  const utcMs = Date.UTC(year, month - 1, day, utcHour);
+  const local = toLocalHour(utcMs);
+  return {
+    utcMs,
+    month: parseInt(local.date.substring(5, 7), 10),
+    day: parseInt(local.date.substring(8, 10), 10),
+    hour: local.hour,
+    utcHour: new Date(utcMs).getUTCHours(),
+  };
 }
@@ -1,4 +1,5 @@
 import { db, type PvpcDailyPrices } from '../db.ts';
+import { hoursInDay, toLocalHour } from './timezone.ts';
 
 const PVPC_BASE = import.meta.env.DEV
   ? '/api/ree/es/datos/mercados/precios-mercados-tiempo-real'
@@ -19,69 +20,98 @@ interface PvpcApiResponse {
   }>;
 }
 
-export async function fetchPvpcRange(
+export type PvpcResolution = 'hour' | 'quarter-hour';
+
+/** Series of the REE "precios mercados tiempo real" widget. */
+export const REE_SERIES_PVPC = '1001';
+export const REE_SERIES_SPOT = '600';
+/** PVPC price of surplus under compensación simplificada (RD 244/2019, art. 14). */
+export const REE_SERIES_PVPC_SURPLUS = '1739';
+
+/** The REE response did not include the requested series (REE has not published it for the range). */
+export class ReeSeriesNotFoundError extends Error {
+  constructor(seriesId: string) {
+    super(`REE series (id ${seriesId}) not found in API response`);
+    this.name = 'ReeSeriesNotFoundError';
+  }
+}
+
+/**
+ * Fetch one price series of the REE market widget for a date range. With 'quarter-hour',
+ * `quarterPrices` is filled as well and `prices` holds the hourly mean; days the API only
+ * returns hourly (before the market moved to 15-minute periods) get each hour's price
+ * repeated in its four quarters.
+ */
+export async function fetchReeDailyPrices(
+  seriesId: string,
   startDate: string,
   endDate: string,
+  resolution: PvpcResolution = 'hour',
 ): Promise<PvpcDailyPrices[]> {
   const params = new URLSearchParams({
     start_date: `${startDate}T00:00`,
     end_date: `${endDate}T23:59`,
-    time_trunc: 'hour',
+    time_trunc: resolution,
   });
 
   const response = await fetch(`${PVPC_BASE}?${params}`);
   if (!response.ok) {
-    throw new Error(`PVPC API error: ${response.status} ${response.statusText}`);
+    throw new Error(`REE API error: ${response.status} ${response.statusText}`);
   }
 
   const data: PvpcApiResponse = await response.json();
 
-  // Find PVPC series (id "1001")
-  const pvpcSeries = data.included.find((s) => s.id === '1001');
-  if (!pvpcSeries) {
-    throw new Error('PVPC series (id 1001) not found in API response');
+  const series = data.included.find((s) => s.id === seriesId);
+  if (!series) {
+    throw new ReeSeriesNotFoundError(seriesId);
   }
 
-  // Group values by date (local Spanish time from the ISO datetime)
-  const byDate = new Map<string, number[]>();
-  for (const v of pvpcSeries.attributes.values) {
-    // datetime is ISO with timezone offset (e.g. "2024-01-15T10:00:00.000+01:00")
-    // Parse to get local Spanish date and hour
-    const dt = new Date(v.datetime);
-    // Format in Europe/Madrid timezone
-    const parts = dt.toLocaleString('sv-SE', { timeZone: 'Europe/Madrid' }).split(' ');
-    const date = parts[0]; // YYYY-MM-DD
-    const hour = parseInt(parts[1].split(':')[0], 10); // 0-23
+  // Group values by local Spanish date, 4 quarter slots per hour of the day (23/25 hours on DST days)
+  const byDate = new Map<string, (number | undefined)[]>();
+  for (const v of series.attributes.values) {
+    // datetime is ISO with timezone offset (e.g. "2024-01-15T10:00:00.000+01:00"), i.e. an exact instant
+    const utcMs = new Date(v.datetime).getTime();
+    const { date, hour } = toLocalHour(utcMs); // hour: 1-based position in the local day
+    const quarter = Math.floor(new Date(utcMs).getUTCMinutes() / 15); // 0-3
 
     if (!byDate.has(date)) {
-      byDate.set(date, new Array(24).fill(0));
+      byDate.set(date, new Array(hoursInDay(date) * 4).fill(undefined));
     }
     // Convert €/MWh → €/kWh
-    byDate.get(date)![hour] = v.value / 1000;
+    byDate.get(date)![(hour - 1) * 4 + quarter] = v.value / 1000;
   }
 
   const result: PvpcDailyPrices[] = [];
-  for (const [date, prices] of byDate) {
-    result.push({ date, prices });
+  for (const [date, slots] of byDate) {
+    // Quarters without their own value take the latest earlier one in the same hour (hourly data)
+    const quarterPrices = slots.map((price, i) => price ?? slots[i - (i % 4)] ?? 0);
+    const prices = Array.from({ length: slots.length / 4 }, (_, h) => {
+      const quarters = quarterPrices.slice(h * 4, h * 4 + 4);
+      return quarters.reduce((s, p) => s + p, 0) / 4;
+    });
+    result.push(resolution === 'quarter-hour' ? { date, prices, quarterPrices } : { date, prices });
   }
   return result;
 }
 
-export async function ensurePvpcCached(dates: string[]): Promise<void> {
-  // Check which dates are already cached
-  const existing = await db.pvpcPrices.where('date').anyOf(dates).primaryKeys();
-  const existingSet = new Set(existing);
-  const missing = dates.filter((d) => !existingSet.has(d)).sort();
-
-  if (missing.length === 0) return;
+/** Fetch PVPC prices for a date range (see fetchReeDailyPrices). */
+export async function fetchPvpcRange(
+  startDate: string,
+  endDate: string,
+  resolution: PvpcResolution = 'hour',
+): Promise<PvpcDailyPrices[]> {
+  return fetchReeDailyPrices(REE_SERIES_PVPC, startDate, endDate, resolution);
+}
 
-  // Group missing dates into contiguous ranges to minimize API calls
+/** Group sorted dates (YYYY-MM-DD) into contiguous ranges, to minimise API calls. */
+export function contiguousDateRanges(sortedDates: string[]): Array<{ start: string; end: string }> {
+  if (sortedDates.length === 0) return [];
   const ranges: Array<{ start: string; end: string }> = [];
-  let rangeStart = missing[0];
-  let prev = missing[0];
+  let rangeStart = sortedDates[0];
+  let prev = sortedDates[0];
 
-  for (let i = 1; i < missing.length; i++) {
-    const curr = missing[i];
+  for (let i = 1; i < sortedDates.length; i++) {
+    const curr = sortedDates[i];
     // Check if curr is the day after prev
     const prevDate = new Date(prev + 'T12:00:00');
     const currDate = new Date(curr + 'T12:00:00');
@@ -94,16 +124,55 @@ export async function ensurePvpcCached(dates: string[]): Promise<void> {
     prev = curr;
   }
   ranges.push({ start: rangeStart, end: prev });
+  return ranges;
+}
+
+export async function ensurePvpcCached(dates: string[], resolution: PvpcResolution = 'hour'): Promise<void> {
+  // Check which dates are already cached (at 15-minute resolution, if that is what's needed)
+  const existing = await db.pvpcPrices.where('date').anyOf(dates).toArray();
+  const existingSet = new Set(
+    existing.filter((p) => resolution === 'hour' || p.quarterPrices).map((p) => p.date),
+  );
+  const missing = dates.filter((d) => !existingSet.has(d)).sort();
 
   // Fetch each range and cache results
-  for (const range of ranges) {
-    const dailyPrices = await fetchPvpcRange(range.start, range.end);
+  for (const range of contiguousDateRanges(missing)) {
+    const dailyPrices = await fetchPvpcRange(range.start, range.end, resolution);
     if (dailyPrices.length > 0) {
       await db.pvpcPrices.bulkPut(dailyPrices);
     }
   }
 }
 
+/**
+ * Cache REE's PVPC surplus price for the given dates. Returns the dates REE has no series for,
+ * which callers price with an approximation.
+ */
+export async function ensurePvpcSurplusCached(dates: string[], resolution: PvpcResolution = 'hour'): Promise<string[]> {
+  const existing = await db.pvpcSurplusPrices.where('date').anyOf(dates).toArray();
+  const existingSet = new Set(
+    existing.filter((p) => resolution === 'hour' || p.quarterPrices).map((p) => p.date),
+  );
+  const missing = dates.filter((d) => !existingSet.has(d)).sort();
+
+  for (const range of contiguousDateRanges(missing)) {
+    try {
+      const dailyPrices = await fetchReeDailyPrices(REE_SERIES_PVPC_SURPLUS, range.start, range.end, resolution);
+      if (dailyPrices.length > 0) {
+        await db.pvpcSurplusPrices.bulkPut(dailyPrices);
+      }
+    } catch (err) {
+      if (!(err instanceof ReeSeriesNotFoundError)) throw err;
+    }
+  }
+  const cached = new Set(await db.pvpcSurplusPrices.where('date').anyOf(missing).primaryKeys());
+  return missing.filter((d) => !cached.has(d));
+}
+
+export async function loadPvpcSurplusPrices(dates: string[]): Promise<Map<string, number>> {
+  return buildPriceMap(await db.pvpcSurplusPrices.where('date').anyOf(dates).toArray());
+}
+
 // PVPC regulated power term prices (peajes + cargos + margen comercialización)
 // Source: BOE — CNMC peajes resolutions + Orden TED cargos + margen fijo 3.113 €/kW/año (solo P1)
 // Values in €/kW/año. 2021 starts June 1 (tarifa 2.0TD inception).
@@ -134,17 +203,33 @@ export function getPvpcPowerPrices(year: number): { punta: number; valle: number
   };
 }
 
+/**
+ * Key of a price in the map returned by loadPvpcPrices. `hour` is the 0-based position in the
+ * local day (0-23, up to 22 / 24 on DST transition days); `quarter` (0-3) selects
+ * a quarter-hour price, only present for dates cached at 15-minute resolution.
+ */
+export function pvpcPriceKey(date: string, hour: number, quarter?: number): string {
+  const key = `${date}-${String(hour).padStart(2, '0')}`;
+  return quarter === undefined ? key : `${key}:${quarter * 15}`;
+}
+
 export async function loadPvpcPrices(
   dates: string[],
 ): Promise<Map<string, number>> {
-  const records = await db.pvpcPrices.where('date').anyOf(dates).toArray();
+  return buildPriceMap(await db.pvpcPrices.where('date').anyOf(dates).toArray());
+}
+
+/** Price map keyed by pvpcPriceKey, from cached daily records (PVPC or market prices). */
+export function buildPriceMap(records: PvpcDailyPrices[]): Map<string, number> {
   const priceMap = new Map<string, number>();
 
   for (const record of records) {
     for (let h = 0; h < record.prices.length; h++) {
-      const key = `${record.date}-${String(h).padStart(2, '0')}`;
-      priceMap.set(key, record.prices[h]);
+      priceMap.set(pvpcPriceKey(record.date, h), record.prices[h]);
     }
+    record.quarterPrices?.forEach((price, i) => {
+      priceMap.set(pvpcPriceKey(record.date, Math.floor(i / 4), i % 4), price);
+    });
   }
 
   return priceMap;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseReeProfile } from './reeProfiles.ts';
+import { generateSyntheticConsumption } from './syntheticConsumption.ts';
+
+const HEADER = 'MES;DIA;HORA;AÑO;VERANO(1)/INVIERNO(0);Pa,0m,d,h;Pb,0m,d,h';
+
+/** REE-style coefficient file for a whole year: 0,5 every hour except 1 at clock hour 20. */
+function reeFile(year: number, skip?: string): string {
+  const rows: string[] = [HEADER];
+  for (let t = Date.UTC(year, 0, 1); t < Date.UTC(year + 1, 0, 1); t += 86_400_000) {
+    const d = new Date(t);
+    const date = d.toISOString().substring(0, 10);
+    if (date === skip) continue;
+    const clockHours = Array.from({ length: 24 }, (_, i) => i + 1);
+    if (date === `${year}-03-31`) clockHours.splice(2, 1);
+    if (date === `${year}-10-27`) clockHours.splice(2, 0, 3);
+    for (const h of clockHours) {
+      rows.push(`${d.getUTCMonth() + 1};${d.getUTCDate()};${h};${year};0;${h === 20 ? '1' : '0,5'};0,1`);
+    }
+  }
+  return rows.join('\n');
+}
+
+describe('parseReeProfile', () => {
+  it('reads the 2.0TD column with one value per hour of each local day', () => {
+    const profile = parseReeProfile(reeFile(2024), 'perfiles_2024.csv', 2024);
+    expect(profile.year).toBe(2024);
+    expect(Object.keys(profile.coefficients)).toHaveLength(366);
+    expect(profile.coefficients['2024-03-31']).toHaveLength(23);
+    expect(profile.coefficients['2024-10-27']).toHaveLength(25);
+    // Clock hour 20 is position 19 on the short day and 21 on the long one
+    expect(profile.coefficients['2024-03-31'][18]).toBe(1);
+    expect(profile.coefficients['2024-10-27'][20]).toBe(1);
+    expect(profile.coefficients['2024-06-15'][19]).toBe(1);
+  });
+
+  it('rejects a file that does not cover the whole year', () => {
+    expect(() => parseReeProfile(reeFile(2024, '2024-05-01'), 'perfiles.csv', 2024)).toThrow(/todo el año 2024/);
+  });
+});
+
+describe('generateSyntheticConsumption with REE coefficients', () => {
+  const reeProfile = parseReeProfile(reeFile(2024), 'perfiles_2024.csv', 2024);
+
+  it('follows the coefficients hour by hour', () => {
+    const records = generateSyntheticConsumption({
+      year: 2024,
+      householdType: 'standard',
+      annualKwh: 3660,
+      reeProfile,
+    });
+    const day = records.filter((r) => r.date === '2024-06-15');
+    expect(day[19].kwh).toBeCloseTo(2 * day[0].kwh, 2);
+    expect(records.filter((r) => r.date === '2024-03-31')).toHaveLength(23);
+  });
+
+  it('keeps the monthly totals from bills and applies the household multipliers on top', () => {
+    const monthlyKwh = [300, ...Array(11).fill(null)];
+    const input = { year: 2024, householdType: 'daytime' as const, annualKwh: 0, monthlyKwh, reeProfile };
+    const january = generateSyntheticConsumption(input).filter((r) => r.date.startsWith('2024-01'));
+    expect(january.reduce((s, r) => s + r.kwh, 0)).toBeCloseTo(300, 0);
+    const day = january.filter((r) => r.date === '2024-01-15');
+    // 'daytime' raises 10:00-18:00 by 35 %
+    expect(day[11].kwh / day[0].kwh).toBeCloseTo(1.35, 1);
+  });
+});
@@ -0,0 +1,78 @@
+import type { ReeConsumptionProfile } from '../db.ts';
+import { cleanCell, normalizeColumn } from './csvFormats.tsx';
+import { dayPositionOfClockHour, hoursInDay } from './timezone.ts';
+
+/**
+ * REE's initial consumption profiles (perfiles iniciales de consumo): for every hour of a year,
+ * the share of the annual consumption of a supply with no hourly metering. REE publishes one
+ * coefficient file per year, with MES, DIA and HORA columns and one column per profile; the 2.0TD
+ * profile is the first one (Pa,0m,d,h). HORA is the clock hour ending the interval (1-24), so the
+ * 23-hour March day has no 03:00 row and the 25-hour October day has two.
+ */
+
+/** Header of the 2.0TD coefficient column: 'Pa,0m,d,h', 'Pa' or 'P2.0TD'. */
+const PROFILE_2_0TD_COLUMN = /^(pa\b|p\s*2\.?0\s*td)/;
+
+function parseCoefficient(cell: string): number {
+  return parseFloat(cell.replace(',', '.'));
+}
+
+/** One value per day position, placing the rows by clock hour when the count does not match the day. */
+function dayCoefficients(date: string, rows: { hour: number; value: number }[]): number[] {
+  const hours = hoursInDay(date);
+  if (rows.length === hours) return rows.map((r) => r.value);
+
+  const values: (number | undefined)[] = Array(hours).fill(undefined);
+  const seen = new Map<number, number>();
+  for (const { hour, value } of rows) {
+    const occurrence = (seen.get(hour) ?? 0) + 1;
+    seen.set(hour, occurrence);
+    const position = dayPositionOfClockHour(date, hour, occurrence);
+    if (position !== undefined) values[position - 1] = value;
+  }
+  // A repeated hour listed once keeps the value of its first occurrence
+  return values.map((v, i) => v ?? values[i - 1] ?? values[i + 1] ?? 0);
+}
+
+/**
+ * Parse REE's coefficient file for `year` (used when the file has no year column). Throws with a
+ * Spanish message when the columns are not found or the file does not cover the whole year.
+ */
+export function parseReeProfile(text: string, source: string, year: number): ReeConsumptionProfile {
+  const lines = text.replace(/^\uFEFF/, '').trim().split(/\r?\n/);
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const headers = lines[0].split(delimiter).map(normalizeColumn);
+  const monthCol = headers.indexOf('mes');
+  const dayCol = headers.indexOf('dia');
+  const hourCol = headers.indexOf('hora');
+  const yearCol = headers.indexOf('ano');
+  const profileCol = headers.findIndex((h) => PROFILE_2_0TD_COLUMN.test(h));
+  if (monthCol < 0 || dayCol < 0 || hourCol < 0 || profileCol < 0) {
+    throw new Error('No se encuentran las columnas MES, DIA, HORA y del perfil 2.0TD (Pa) en el fichero de REE');
+  }
+
+  const byDate = new Map<string, { hour: number; value: number }[]>();
+  let fileYear = year;
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const cells = line.split(delimiter).map(cleanCell);
+    if (yearCol >= 0) fileYear = parseInt(cells[yearCol], 10);
+    const month = parseInt(cells[monthCol], 10);
+    const day = parseInt(cells[dayCol], 10);
+    const value = parseCoefficient(cells[profileCol]);
+    if (!month || !day || isNaN(value)) continue;
+    const date = `${fileYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    if (!byDate.has(date)) byDate.set(date, []);
+    byDate.get(date)!.push({ hour: parseInt(cells[hourCol], 10), value });
+  }
+
+  const daysInYear = (Date.UTC(fileYear + 1, 0, 1) - Date.UTC(fileYear, 0, 1)) / 86_400_000;
+  const inYear = [...byDate.keys()].filter((d) => d.startsWith(`${fileYear}-`));
+  if (inYear.length !== daysInYear || byDate.size !== daysInYear) {
+    throw new Error(`El fichero de REE no cubre todo el año ${fileYear}`);
+  }
+
+  const coefficients: Record<string, number[]> = {};
+  for (const [date, rows] of byDate) coefficients[date] = dayCoefficients(date, rows);
+  return { year: fileYear, source, importedAt: new Date().toISOString(), coefficients };
+}
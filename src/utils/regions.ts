@@ -0,0 +1,41 @@
+import type { CompanyOffer, SolarInstallation, TariffRegion } from '../db.ts';
+
+export interface RegionInfo {
+  id: TariffRegion;
+  name: string;
+  /** Indirect tax applied on top of the bill instead of peninsular IVA. */
+  indirectTaxName: 'IVA' | 'IGIC' | 'IPSI';
+  /** Rate for a household supply (≤ 10 kW). */
+  defaultIndirectTaxPercent: number;
+  /** Local clock minus Madrid clock, in hours (see timezone.ts). */
+  clockShiftHours: number;
+}
+
+export const REGIONS: RegionInfo[] = [
+  { id: 'peninsula', name: 'Península y Baleares', indirectTaxName: 'IVA', defaultIndirectTaxPercent: 21, clockShiftHours: 0 },
+  // IGIC has a zero rate for domestic supplies up to 10 kW (3% above that)
+  { id: 'canarias', name: 'Canarias', indirectTaxName: 'IGIC', defaultIndirectTaxPercent: 0, clockShiftHours: -1 },
+  { id: 'ceuta', name: 'Ceuta', indirectTaxName: 'IPSI', defaultIndirectTaxPercent: 1, clockShiftHours: 0 },
+  { id: 'melilla', name: 'Melilla', indirectTaxName: 'IPSI', defaultIndirectTaxPercent: 1, clockShiftHours: 0 },
+];
+
+export function getRegion(region: TariffRegion | undefined): RegionInfo {
+  return REGIONS.find((r) => r.id === region) ?? REGIONS[0];
+}
+
+/**
+ * Region a simulation runs in. The installation's location wins; an offer's region only
+ * applies when the installation does not set one.
+ */
+export function resolveRegion(installation: SolarInstallation | null, offer: CompanyOffer): TariffRegion {
+  return installation?.region ?? offer.region ?? 'peninsula';
+}
+
+/**
+ * Indirect tax rate for billing an offer in a region. The offer's own rate is used when it was
+ * written for that region; otherwise (e.g. a peninsular offer simulated in Canarias) the
+ * region's default rate applies.
+ */
+export function getIndirectTaxPercent(offer: CompanyOffer, region: TariffRegion): number {
+  return (offer.region ?? 'peninsula') === region ? offer.ivaPercent : getRegion(region).defaultIndirectTaxPercent;
+}
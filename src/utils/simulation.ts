@@ -1,10 +1,34 @@
-import type { ConsumptionRecord, SolarInstallation, CompanyOffer, Battery, TariffSchedule } from '../db.ts';
+import type {
+  ConsumptionRecord,
+  SolarInstallation,
+  CompanyOffer,
+  Battery,
+  TariffSchedule,
+  Inverter,
+  Vehicle,
+  HeatPump,
+  TariffRegion,
+} from '../db.ts';
 import { resolveTariffPeriod, resolvePowerTariffPeriod } from './tariffSchedule.ts';
 import { parsePVGISTime } from './pvgis.ts';
 import { calculateShadowFactor } from './shadows.ts';
-import { calculateBill, type HourlySimResult } from './billCalculator.ts';
-import type { EnergyPriceResolver } from './energyPriceResolver.ts';
+import { convertThroughInverter } from './inverter.ts';
+import { getBatteryParams } from './battery.ts';
+import { calculateBill, getContractedPower, type HourlySimResult } from './billCalculator.ts';
+import {
+  createSurplusPriceResolver,
+  type EnergyPriceResolver,
+  type SurplusPriceResolver,
+} from './energyPriceResolver.ts';
 import { getPvpcPowerPrices } from './pvpc.ts';
+import { createBatteryStrategy, type BatteryStrategy, type BatteryStrategyId } from './batteryStrategies.ts';
+import { generateEvLoad } from './evLoad.ts';
+import { buildTemperatureIndex, getAvoidedGasCost, heatPumpHour, type TemperatureIndex } from './heatPump.ts';
+import { compareIntervals, getIntervalHours } from './timeResolution.ts';
+import { intervalStartUtc, utcHourKey } from './timezone.ts';
+import { getRegion, resolveRegion } from './regions.ts';
+import { getEarlyExitPenalty } from './promotions.ts';
+import { bonoSocialKwhAtMonthStart } from './bonoSocial.ts';
 
 export interface MonthlyBreakdown {
   month: string;
@@ -16,15 +40,25 @@ export interface MonthlyBreakdown {
   virtualBatteryFee: number;
   powerTerm: number;
   meterRental: number;
+  /** 3.0TD excess-power penalty (excesos de potencia). */
+  excessPower: number;
+  /** Bono social discount, subtracted before taxes. */
+  bonoSocialDiscount: number;
+  /** Promotional discounts and welcome credit, subtracted before taxes. */
+  promotionDiscount: number;
   electricityTax: number;
   iva: number;
   total: number;
-  /** Steady-state values (2nd billing pass, VB starting from year-end balance of 1st pass) */
+  /**
+   * Steady-state values (2nd billing pass: VB starting from year-end balance of 1st pass, regular
+   * prices without promotions)
+   */
   totalSteadyState?: number;
   virtualBatteryBalanceSteadyState?: number;
   selfConsumptionRatio: number;
   gridPurchaseKwh: number;
   gridSurplusKwh: number;
+  curtailedKwh: number;
   consumptionKwh: number;
   solarProductionKwh: number;
 }
@@ -35,32 +69,65 @@ export interface SimulationResult {
   companyName: string;
   batteryId: number | null;
   batteryName: string;
+  strategyId: BatteryStrategyId;
+  strategyName: string;
+  vehicleId: number | null;
+  vehicleName: string;
+  heatPumpId: number | null;
+  heatPumpName: string;
   installationId: number;
+  /** Region whose tariff hours and indirect tax were applied. */
+  region: TariffRegion;
   totalAnnualCost: number;
+  /** Includes EV charging and heat pump load. */
   totalConsumption: number;
+  totalEvCharge: number;
+  totalHeatPumpLoad: number;
+  /** Heat delivered for heating and hot water (kWh thermal). */
+  totalHeatPumpThermal: number;
+  /** Cost of producing that heat with the replaced gas boiler, when a gas price is set. */
+  avoidedGasCost: number | null;
   totalSolarProduction: number;
+  /** Energy lost to inverter AC clipping (kWh), not included in totalSolarProduction. */
+  totalInverterClipping: number;
   totalGridPurchase: number;
   totalGridSurplus: number;
+  /** Surplus curtailed by the export limit (kWh). */
+  totalCurtailed: number;
   totalSurplusCompensation: number;
   selfConsumptionRatio: number;
   virtualBatteryBalance: number;
-  /** Steady-state equivalents for VB offers (2nd billing pass) */
+  /** Permanence penalty owed to switch away at the end of the simulated year (0 once the stay is over). */
+  earlyExitPenalty: number;
+  /** Steady-state equivalents for VB and promotional offers (2nd billing pass, from year 2 on) */
   totalAnnualCostSteadyState?: number;
   virtualBatteryBalanceSteadyState?: number;
   monthlyBreakdown: MonthlyBreakdown[];
   hourlyResults: HourlySimResult[];
 }
 
-function buildSolarIndex(installation: SolarInstallation): Record<string, number> {
-  if (!installation.pvgisData) return {};
+export interface SolarIndex {
+  /** AC production per UTC "MM-DD-HH" key (see timezone.ts), averaged across PVGIS years (kWh). */
+  production: Record<string, number>;
+  /** Energy lost to inverter AC clipping per key (kWh). */
+  clipped: Record<string, number>;
+}
+
+export function buildSolarIndex(installation: SolarInstallation): SolarIndex {
+  if (!installation.pvgisData) return { production: {}, clipped: {} };
 
-  // Accumulate per group, averaging across years within each group
-  const groupTotals: Record<string, number> = {};
+  // DC energy per PVGIS timestamp, bucketed by the inverter each group feeds.
+  // Groups without an inverter get their own unclipped bucket (legacy behaviour).
+  const buckets = new Map<
+    string,
+    { inverter: Inverter | undefined; byTime: Map<string, { key: string; kwh: number }> }
+  >();
 
   for (const groupData of installation.pvgisData) {
     const group = installation.panelGroups.find((g) => g.name === groupData.groupName);
     const obstacles = group?.obstacles ?? [];
     const panelHeight = group?.heightFromGround ?? 0;
+    const inverter = installation.inverters?.find((inv) => inv.name === group?.inverterName);
 
     // Scale P if peakPower has changed since fetch (avoids re-fetch for power changes)
     const currentPeakKw = (group?.peakPowerWp ?? 0) / 1000;
@@ -83,13 +150,14 @@ function buildSolarIndex(installation: SolarInstallation): Record<string, number
       console.log(`[SolarIndex] Escalando P de "${groupData.groupName}": ${storedPeakKw} kWp → ${currentPeakKw} kWp (×${peakPowerScale.toFixed(3)})`);
     }
 
-    // Sum values per key and count occurrences to average across years
-    const sums: Record<string, number> = {};
-    const counts: Record<string, number> = {};
+    const bucketId = inverter ? `inv:${inverter.name}` : `group:${groupData.groupName}`;
+    if (!buckets.has(bucketId)) buckets.set(bucketId, { inverter, byTime: new Map() });
+    const byTime = buckets.get(bucketId)!.byTime;
 
     for (const record of groupData.hourlyData) {
-      const { month, day, hour, utcHour } = parsePVGISTime(record.time);
-      const key = `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}-${String(hour).padStart(2, '0')}`;
+      const { utcMs, month, utcHour } = parsePVGISTime(record.time);
+      // Keyed by UTC hour: local keys cannot tell the two October 02:00 hours apart
+      const key = utcHourKey(utcMs);
       // Shadow calculation uses UTC hour — getSunPosition assumes solar time ≈ UTC for Spain
       // Physical height along the tilt axis depends on orientation
       const isLandscape = group?.panelOrientation === 'landscape';
@@ -99,26 +167,85 @@ function buildSolarIndex(installation: SolarInstallation): Record<string, number
         panelHeight, panelTiltHeightCm / 100, group?.tilt ?? 30,
       );
       const kwhThisHour = Math.max(0, (record.P / 1000) * peakPowerScale * shadowFactor);
-      sums[key] = (sums[key] ?? 0) + kwhThisHour;
+      const entry = byTime.get(record.time);
+      if (entry) entry.kwh += kwhThisHour;
+      else byTime.set(record.time, { key, kwh: kwhThisHour });
+    }
+  }
+
+  const production: Record<string, number> = {};
+  const clipped: Record<string, number> = {};
+
+  for (const { inverter, byTime } of buckets.values()) {
+    // Clip each real hour before averaging across years, then average per key
+    const sums: Record<string, number> = {};
+    const clippedSums: Record<string, number> = {};
+    const counts: Record<string, number> = {};
+
+    for (const { key, kwh } of byTime.values()) {
+      const { acKwh, clippedKwh } = inverter ? convertThroughInverter(kwh, inverter) : { acKwh: kwh, clippedKwh: 0 };
+      sums[key] = (sums[key] ?? 0) + acKwh;
+      clippedSums[key] = (clippedSums[key] ?? 0) + clippedKwh;
       counts[key] = (counts[key] ?? 0) + 1;
     }
 
-    // Add averaged values for this group to the total
     for (const key of Object.keys(sums)) {
-      groupTotals[key] = (groupTotals[key] ?? 0) + sums[key] / counts[key];
+      production[key] = (production[key] ?? 0) + sums[key] / counts[key];
+      clipped[key] = (clipped[key] ?? 0) + clippedSums[key] / counts[key];
     }
   }
 
-  return groupTotals;
+  return { production, clipped };
 }
 
-function getPowerTermPrice(offer: CompanyOffer, period: string): number {
-  return offer.powerPrices[period] ?? 0;
+/** Unique key of a result within one simulation run (offer × battery × strategy × extra loads). */
+export function getResultKey(
+  result: Pick<SimulationResult, 'offerId' | 'batteryId' | 'strategyId' | 'vehicleId' | 'heatPumpId'>,
+): string {
+  return `${result.offerId}-${result.batteryId}-${result.strategyId}-${result.vehicleId}-${result.heatPumpId}`;
+}
+
+export interface SimulationOptions {
+  /** Battery dispatch strategy. Defaults to self-consumption. */
+  strategy?: BatteryStrategy;
+  /** Electric vehicle whose charging is added on top of the consumption records. */
+  vehicle?: Vehicle | null;
+  /** Heat pump whose electric load is added on top of the consumption records. */
+  heatPump?: HeatPump | null;
+  /**
+   * Outdoor temperatures for the heat pump. Defaults to the installation's PVGIS T2m;
+   * pass it explicitly when the installation has no PVGIS data (e.g. the no-solar baseline).
+   */
+  temperatureIndex?: TemperatureIndex;
+  /**
+   * Precomputed production of the installation. Building it is the costliest step and only
+   * depends on the installation, so callers running many combinations compute it once.
+   */
+  solarIndex?: SolarIndex;
+  /** Surplus compensation price per interval. Defaults to createSurplusPriceResolver for the offer. */
+  surplusPriceResolver?: SurplusPriceResolver;
+}
+
+/**
+ * Solar/temperature index key of a consumption hour (1-based position in the local day).
+ * `clockShiftHours` places Canary local hours on the UTC timeline (see timezone.ts).
+ */
+function solarKey(date: string, hour: number, clockShiftHours: number): string {
+  return utcHourKey(intervalStartUtc(date, hour, clockShiftHours));
 }
 
-function getContractedPower(offer: CompanyOffer, period: string): number {
-  if (typeof offer.contractedPowerKw === 'number') return offer.contractedPowerKw;
-  return offer.contractedPowerKw[period] ?? 0;
+/** Same installation with zero production — used for the "no solar" baseline of each offer. */
+export function withoutSolarProduction(installation: SolarInstallation): SolarInstallation {
+  return { ...installation, pvgisData: undefined };
+}
+
+/** Effective injection cap in kW: the stricter of installation and offer limits, or Infinity. */
+function getExportLimitKw(installation: SolarInstallation, offer: CompanyOffer): number {
+  return Math.min(installation.exportLimitKw ?? Infinity, offer.exportLimitKw ?? Infinity);
+}
+
+function getPowerTermPrice(offer: CompanyOffer, period: string): number {
+  return offer.powerPrices[period] ?? 0;
 }
 
 export async function runSimulation(
@@ -129,54 +256,146 @@ export async function runSimulation(
   schedule: TariffSchedule | null,
   powerSchedule: TariffSchedule | null,
   energyPriceResolver: EnergyPriceResolver,
+  options: SimulationOptions = {},
 ): Promise<SimulationResult> {
-  const solarIndex = buildSolarIndex(installation);
+  const strategy = options.strategy ?? createBatteryStrategy('self-consumption');
+  const vehicle = options.vehicle ?? null;
+  const heatPump = options.heatPump ?? null;
+  const temperatures = heatPump ? (options.temperatureIndex ?? buildTemperatureIndex(installation)) : {};
+  const solarIndex = options.solarIndex ?? buildSolarIndex(installation);
   console.log(solarIndex);
   const hourlyResults: HourlySimResult[] = [];
 
-  let batteryLevel = 0;
-  const batteryCapacity = battery?.capacityKwh ?? 0;
-  const batteryMaxPowerKw = battery ? battery.maxPowerW / 1000 : 0;
-  const batteryEfficiency = battery ? battery.roundTripEfficiency / 100 : 0.9;
-
-  const sorted = [...consumption].sort((a, b) => (a.date !== b.date ? a.date.localeCompare(b.date) : a.hour - b.hour));
+  const bat = battery ? getBatteryParams(battery) : null;
+  // Stored energy (kWh, DC side). The battery starts empty, i.e. at its minimum SoC.
+  let batteryLevel = bat?.minLevelKwh ?? 0;
+  const exportLimitKw = getExportLimitKw(installation, offer);
+  const region = resolveRegion(installation, offer);
+  const { clockShiftHours } = getRegion(region);
+
+  const sorted = [...consumption].sort(compareIntervals);
+  // Records are hourly or 15-minute; PVGIS, temperatures and the EV plan are hourly and are
+  // spread evenly over the quarters of each hour
+  const durations = sorted.map(getIntervalHours);
+
+  // Heat pump load follows outdoor temperature only; hours without temperature data get none
+  let heatPumpThermal = 0;
+  const heatPumpLoads = sorted.map((r, i) => {
+    const temperature = temperatures[solarKey(r.date, r.hour, clockShiftHours)];
+    if (!heatPump || temperature === undefined) return 0;
+    const hp = heatPumpHour(heatPump, temperature);
+    heatPumpThermal += hp.heatingThermalKwh * durations[i];
+    return hp.electricKwh * durations[i];
+  });
+
+  // EV charging is planned before the battery: solar diverting uses the surplus over the base load
+  let evLoad: Map<string, number> | null = null;
+  if (vehicle) {
+    const baseLoad = new Map<string, number>();
+    sorted.forEach((r, i) => {
+      const key = `${r.date}-${r.hour}`;
+      baseLoad.set(key, (baseLoad.get(key) ?? 0) + r.kwh + heatPumpLoads[i]);
+    });
+    evLoad = generateEvLoad(
+      sorted.map((r) => r.date),
+      vehicle,
+      schedule,
+      (date, hour) =>
+        Math.max(0, (solarIndex.production[solarKey(date, hour, clockShiftHours)] ?? 0) - (baseLoad.get(`${date}-${hour}`) ?? 0)),
+      region,
+    );
+  }
 
   // Batch-resolve all energy prices upfront
-  const queries = sorted.map((r) => ({ date: r.date, hour: r.hour }));
+  const queries = sorted.map((r) => ({ date: r.date, hour: r.hour, quarter: r.quarter }));
   const energyPrices = await energyPriceResolver(queries);
+  const surplusPriceResolver = options.surplusPriceResolver ?? createSurplusPriceResolver(offer, schedule, region);
+  const surplusPrices = await surplusPriceResolver(queries);
 
   for (let i = 0; i < sorted.length; i++) {
     const record = sorted[i];
-    const { date, hour, kwh: consumptionKwh } = record;
-    const [, mm, dd] = date.split('-');
-    const solarKey = `${mm}-${dd}-${String(hour).padStart(2, '0')}`;
-    const solarProduction = solarIndex[solarKey] ?? 0;
+    const { date, hour, quarter } = record;
+    const duration = durations[i];
+    const key = solarKey(date, hour, clockShiftHours);
+    const evCharge = (evLoad?.get(`${date}-${hour}`) ?? 0) * duration;
+    const heatPumpLoad = heatPumpLoads[i];
+    const consumptionKwh = record.kwh + evCharge + heatPumpLoad;
+    const solarProduction = (solarIndex.production[key] ?? 0) * duration;
+    const inverterClipping = (solarIndex.clipped[key] ?? 0) * duration;
+
+    const tariffPeriod = resolveTariffPeriod(schedule, date, hour, region);
 
     let net = consumptionKwh - solarProduction;
     let batteryCharge = 0;
     let batteryLoss = 0;
 
-    if (battery) {
-      if (net > 0) {
-        const canDischarge = Math.min(batteryLevel, batteryMaxPowerKw, net);
+    if (bat) {
+      // Standby self-discharge over the interval, never below the minimum SoC
+      const selfDischarge = Math.max(
+        0,
+        Math.min(batteryLevel * (1 - Math.pow(bat.hourlyRetention, duration)), batteryLevel - bat.minLevelKwh),
+      );
+      // Power limits (kW) → energy that fits in this interval (kWh)
+      const maxChargeKwh = bat.maxChargeKw * duration;
+      const maxDischargeKwh = bat.maxDischargeKw * duration;
+      batteryLevel -= selfDischarge;
+      batteryLoss += selfDischarge;
+
+      const dispatch = strategy.decide({
+        date,
+        hour,
+        tariffPeriod,
+        net,
+        batteryLevel,
+        capacityKwh: bat.capacityKwh,
+        maxChargeKw: bat.maxChargeKw,
+        chargeEfficiency: bat.chargeEfficiency,
+        roundTripEfficiency: bat.chargeEfficiency * bat.dischargeEfficiency,
+      });
+
+      if (net > 0 && dispatch.allowDischarge) {
+        const floor = Math.max(bat.minLevelKwh, dispatch.reserveKwh);
+        // AC energy delivered; the battery gives up delivered / dischargeEfficiency
+        const canDischarge = Math.min(
+          Math.max(0, batteryLevel - floor) * bat.dischargeEfficiency,
+          maxDischargeKwh,
+          net,
+        );
         batteryCharge = -canDischarge;
-        batteryLevel -= canDischarge;
+        batteryLoss += canDischarge / bat.dischargeEfficiency - canDischarge;
+        batteryLevel -= canDischarge / bat.dischargeEfficiency;
         net -= canDischarge;
-        // discharge losses were already accounted for at charge time (all losses lumped at charging)
       } else if (net < 0) {
         const surplus = -net;
-        const canCharge = Math.min((batteryCapacity - batteryLevel) / batteryEfficiency, batteryMaxPowerKw, surplus);
+        const canCharge = Math.min((bat.capacityKwh - batteryLevel) / bat.chargeEfficiency, maxChargeKwh, surplus);
         batteryCharge = canCharge;
-        batteryLoss = canCharge * (1 - batteryEfficiency);
-        batteryLevel += canCharge * batteryEfficiency;
+        batteryLoss += canCharge * (1 - bat.chargeEfficiency);
+        batteryLevel += canCharge * bat.chargeEfficiency;
         net += canCharge;
       }
+
+      // Grid charging uses whatever power and capacity surplus charging left free
+      if (dispatch.gridChargeKwh > 0 && batteryCharge >= 0) {
+        const gridCharge = Math.min(
+          dispatch.gridChargeKwh,
+          (bat.capacityKwh - batteryLevel) / bat.chargeEfficiency,
+          maxChargeKwh - batteryCharge,
+        );
+        if (gridCharge > 0) {
+          batteryCharge += gridCharge;
+          batteryLoss += gridCharge * (1 - bat.chargeEfficiency);
+          batteryLevel += gridCharge * bat.chargeEfficiency;
+          net += gridCharge;
+        }
+      }
     }
 
     const gridPurchase = net > 0 ? net : 0;
-    const gridSurplus = net < 0 ? -net : 0;
-    const tariffPeriod = resolveTariffPeriod(schedule, date, hour);
-    const powerPeriod = resolvePowerTariffPeriod(powerSchedule, date, hour);
+    const surplus = net < 0 ? -net : 0;
+    // kW cap × interval length = kWh that can be injected in this interval
+    const gridSurplus = Math.min(surplus, exportLimitKw * duration);
+    const curtailed = surplus - gridSurplus;
+    const powerPeriod = resolvePowerTariffPeriod(powerSchedule, date, hour, region);
     const energyPrice = energyPrices[i];
 
     let powerTermPrice: number;
@@ -190,24 +409,30 @@ export async function runSimulation(
       powerTermPrice = getPowerTermPrice(offer, powerPeriod);
       contractedPower = getContractedPower(offer, powerPeriod);
     }
-    const powerTermCost = powerTermPrice * contractedPower / 24;
+    const powerTermCost = (powerTermPrice * contractedPower * duration) / 24;
 
     hourlyResults.push({
       date,
       hour,
+      quarter,
       consumption: consumptionKwh,
+      evCharge,
+      heatPumpLoad,
       solarProduction,
+      inverterClipping,
       batteryCharge,
       batteryLoss,
       batteryLevel,
       gridPurchase,
       gridSurplus,
+      curtailed,
       tariffPeriod,
+      powerPeriod,
       energyPrice,
       powerTermCost,
       powerTermPrice,
       energyCost: gridPurchase * energyPrice,
-      surplusValue: gridSurplus * offer.surplusCompensationPerKwh,
+      surplusValue: gridSurplus * surplusPrices[i],
     });
   }
 
@@ -221,19 +446,32 @@ export async function runSimulation(
   const sortedMonths = [...monthlyMap.keys()].sort();
 
   // Run a full billing pass starting from a given VB balance, return breakdown + year-end balance.
-  const runBillingPass = (startBalance: number) => {
+  // Promotions count contract months from the first simulated month and only apply when requested.
+  const runBillingPass = (startBalance: number, withPromotion: boolean) => {
     let balance = startBalance;
+    // Bono social kWh cap, one per 12 billed months
+    let bonoSocialKwhRemaining = 0;
     const breakdown: MonthlyBreakdown[] = [];
-    for (const month of sortedMonths) {
+    for (const [contractMonth, month] of sortedMonths.entries()) {
       const hours = monthlyMap.get(month)!;
-      const monthBill = calculateBill(hours, offer, balance);
+      bonoSocialKwhRemaining = bonoSocialKwhAtMonthStart(offer.bonoSocial, contractMonth, bonoSocialKwhRemaining);
+      const monthBill = calculateBill(
+        hours,
+        offer,
+        balance,
+        region,
+        bonoSocialKwhRemaining,
+        withPromotion ? contractMonth : undefined,
+      );
       balance = monthBill.newVirtualBatteryBalance;
+      bonoSocialKwhRemaining = monthBill.newBonoSocialKwhRemaining;
 
       const consumptionKwh = hours.reduce((s, h) => s + h.consumption, 0);
       const solarKwh = hours.reduce((s, h) => s + h.solarProduction, 0);
       const gridPurchaseKwh = hours.reduce((s, h) => s + h.gridPurchase, 0);
       const gridSurplusKwh = hours.reduce((s, h) => s + h.gridSurplus, 0);
-      const selfConsumed = solarKwh - gridSurplusKwh;
+      const curtailedKwh = hours.reduce((s, h) => s + h.curtailed, 0);
+      const selfConsumed = solarKwh - gridSurplusKwh - curtailedKwh;
 
       breakdown.push({
         month,
@@ -245,12 +483,16 @@ export async function runSimulation(
         virtualBatteryFee: monthBill.virtualBatteryFee,
         powerTerm: monthBill.powerTerm,
         meterRental: monthBill.meterRental,
+        excessPower: monthBill.excessPower,
+        bonoSocialDiscount: monthBill.bonoSocialDiscount,
+        promotionDiscount: monthBill.promotionDiscount,
         electricityTax: monthBill.electricityTax,
         iva: monthBill.iva,
         total: monthBill.total,
         selfConsumptionRatio: consumptionKwh > 0 ? selfConsumed / consumptionKwh : 0,
         gridPurchaseKwh,
         gridSurplusKwh,
+        curtailedKwh,
         consumptionKwh,
         solarProductionKwh: solarKwh,
       });
@@ -258,16 +500,16 @@ export async function runSimulation(
     return { breakdown, endBalance: balance };
   };
 
-  // Pass 1: realistic first year, starting with zero VB balance.
-  const pass1 = runBillingPass(0);
+  // Pass 1: realistic first year, starting with zero VB balance and with the offer's promotion.
+  const pass1 = runBillingPass(0, true);
   let monthlyBreakdown = pass1.breakdown;
   const virtualBatteryBalance = pass1.endBalance;
   let totalAnnualCostSteadyState: number | undefined;
   let virtualBatteryBalanceSteadyState: number | undefined;
 
-  if (offer.hasVirtualBattery) {
-    // Pass 2: steady state — year starts with the balance left at end of year 1.
-    const pass2 = runBillingPass(pass1.endBalance);
+  if (offer.hasVirtualBattery || offer.promotion) {
+    // Pass 2: steady state — year starts with the balance left at end of year 1, at regular prices.
+    const pass2 = runBillingPass(pass1.endBalance, false);
     monthlyBreakdown = pass1.breakdown.map((m, i) => ({
       ...m,
       totalSteadyState: pass2.breakdown[i].total,
@@ -283,10 +525,14 @@ export async function runSimulation(
   };
 
   const totalConsumption = hourlyResults.reduce((s, h) => s + h.consumption, 0);
+  const totalEvCharge = hourlyResults.reduce((s, h) => s + h.evCharge, 0);
+  const totalHeatPumpLoad = hourlyResults.reduce((s, h) => s + h.heatPumpLoad, 0);
   const totalSolarProduction = hourlyResults.reduce((s, h) => s + h.solarProduction, 0);
+  const totalInverterClipping = hourlyResults.reduce((s, h) => s + h.inverterClipping, 0);
   const totalGridPurchase = hourlyResults.reduce((s, h) => s + h.gridPurchase, 0);
   const totalGridSurplus = hourlyResults.reduce((s, h) => s + h.gridSurplus, 0);
-  const selfConsumed = totalSolarProduction - totalGridSurplus;
+  const totalCurtailed = hourlyResults.reduce((s, h) => s + h.curtailed, 0);
+  const selfConsumed = totalSolarProduction - totalGridSurplus - totalCurtailed;
 
   return {
     offerId: offer.id!,
@@ -294,13 +540,27 @@ export async function runSimulation(
     companyName: offer.companyName,
     batteryId: battery?.id ?? null,
     batteryName: battery?.name ?? 'Sin batería',
+    strategyId: strategy.id,
+    strategyName: strategy.name,
+    vehicleId: vehicle?.id ?? null,
+    vehicleName: vehicle?.name ?? 'Sin VE',
+    heatPumpId: heatPump?.id ?? null,
+    heatPumpName: heatPump?.name ?? 'Sin bomba de calor',
     installationId: installation.id!,
+    region,
     totalAnnualCost: bill.total,
     totalConsumption,
+    totalEvCharge,
+    totalHeatPumpLoad,
+    totalHeatPumpThermal: heatPumpThermal,
+    avoidedGasCost: heatPump ? getAvoidedGasCost(heatPump, heatPumpThermal) : null,
     totalSolarProduction,
+    totalInverterClipping,
     totalGridPurchase,
     totalGridSurplus,
+    totalCurtailed,
     totalSurplusCompensation: bill.surplusCompensation,
+    earlyExitPenalty: getEarlyExitPenalty(offer.promotion, sortedMonths.length),
     selfConsumptionRatio: totalConsumption > 0 ? selfConsumed / totalConsumption : 0,
     virtualBatteryBalance,
     totalAnnualCostSteadyState,
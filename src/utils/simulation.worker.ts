@@ -0,0 +1,46 @@
+import { runSimulation } from './simulation.ts';
+import { createBatteryStrategy } from './batteryStrategies.ts';
+import { intervalKey } from './timeResolution.ts';
+import type { EnergyPriceResolver, SurplusPriceResolver } from './energyPriceResolver.ts';
+import type { SimulationJob, SimulationWorkerRequest, SimulationWorkerResponse } from './simulationPool.ts';
+
+// tsconfig uses the DOM lib; a dedicated worker scope has the same messaging surface as Worker
+const scope = self as unknown as Worker;
+
+async function run(job: SimulationJob) {
+  const strategy = job.strategyId ? createBatteryStrategy(job.strategyId, job.strategyOptions) : undefined;
+  // Prices were resolved on the main thread (PVPC needs IndexedDB and network), once per offer
+  const resolver: EnergyPriceResolver = async (queries) =>
+    queries.map((q) => job.energyPrices.get(intervalKey(q)) ?? 0);
+  const surplusPriceResolver: SurplusPriceResolver = async (queries) =>
+    queries.map((q) => job.surplusPrices.get(intervalKey(q)) ?? 0);
+
+  return runSimulation(
+    job.consumption,
+    job.installation,
+    job.offer,
+    job.battery,
+    job.schedule,
+    job.powerSchedule,
+    resolver,
+    {
+      strategy,
+      vehicle: job.vehicle,
+      heatPump: job.heatPump,
+      temperatureIndex: job.temperatureIndex,
+      solarIndex: job.solarIndex,
+      surplusPriceResolver,
+    },
+  );
+}
+
+scope.onmessage = async (e: MessageEvent<SimulationWorkerRequest>) => {
+  const { jobIndex, job } = e.data;
+  let response: SimulationWorkerResponse;
+  try {
+    response = { jobIndex, result: await run(job) };
+  } catch (err) {
+    response = { jobIndex, error: err instanceof Error ? err.message : String(err) };
+  }
+  scope.postMessage(response);
+};
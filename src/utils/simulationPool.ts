@@ -0,0 +1,113 @@
+import type { Battery, CompanyOffer, ConsumptionRecord, HeatPump, SolarInstallation, TariffSchedule, Vehicle } from '../db.ts';
+import type { SimulationResult, SolarIndex } from './simulation.ts';
+import type { BatteryStrategyId, BatteryStrategyOptions } from './batteryStrategies.ts';
+import type { TemperatureIndex } from './heatPump.ts';
+import SimulationWorker from './simulation.worker.ts?worker&inline';
+
+/**
+ * One runSimulation call in serialisable form (no closures), so it can be posted to a worker.
+ * The installation is sent without PVGIS data: its production goes precomputed in `solarIndex`.
+ */
+export interface SimulationJob {
+  consumption: ConsumptionRecord[];
+  installation: SolarInstallation;
+  solarIndex: SolarIndex;
+  offer: CompanyOffer;
+  battery: Battery | null;
+  schedule: TariffSchedule | null;
+  powerSchedule: TariffSchedule | null;
+  /** Energy price (€/kWh) per interval key (see timeResolution.ts), resolved for the offer. */
+  energyPrices: Map<string, number>;
+  /** Surplus compensation price (€/kWh) per interval key, resolved for the offer. */
+  surplusPrices: Map<string, number>;
+  strategyId?: BatteryStrategyId;
+  strategyOptions?: BatteryStrategyOptions;
+  vehicle: Vehicle | null;
+  heatPump: HeatPump | null;
+  temperatureIndex?: TemperatureIndex;
+}
+
+export interface SimulationWorkerRequest {
+  jobIndex: number;
+  job: SimulationJob;
+}
+
+export type SimulationWorkerResponse =
+  | { jobIndex: number; result: SimulationResult; error?: undefined }
+  | { jobIndex: number; error: string; result?: undefined };
+
+export interface SimulationProgress {
+  completed: number;
+  total: number;
+}
+
+export class SimulationCancelledError extends Error {
+  constructor() {
+    super('Simulación cancelada');
+    this.name = 'SimulationCancelledError';
+  }
+}
+
+const MAX_WORKERS = 4;
+
+/**
+ * Run the jobs on a pool of Web Workers, keeping the UI responsive. Results come back in job
+ * order. Aborting `signal` terminates the workers and rejects with SimulationCancelledError.
+ */
+export function runSimulationPool(
+  jobs: SimulationJob[],
+  onProgress?: (progress: SimulationProgress) => void,
+  signal?: AbortSignal,
+): Promise<SimulationResult[]> {
+  const results: SimulationResult[] = new Array(jobs.length);
+  if (jobs.length === 0) return Promise.resolve(results);
+
+  // Leave a core for the main thread
+  const poolSize = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency ?? 2) - 1, jobs.length));
+
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    let nextJob = 0;
+    let completed = 0;
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      workers.forEach((w) => w.terminate());
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve(results);
+    };
+
+    const onAbort = () => finish(new SimulationCancelledError());
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort);
+
+    const dispatch = (worker: Worker) => {
+      if (nextJob >= jobs.length) return;
+      const request: SimulationWorkerRequest = { jobIndex: nextJob, job: jobs[nextJob] };
+      nextJob++;
+      worker.postMessage(request);
+    };
+
+    for (let i = 0; i < poolSize; i++) {
+      const worker = new SimulationWorker();
+      worker.onmessage = (e: MessageEvent<SimulationWorkerResponse>) => {
+        const response = e.data;
+        if (response.error !== undefined) {
+          finish(new Error(response.error));
+          return;
+        }
+        results[response.jobIndex] = response.result;
+        completed++;
+        onProgress?.({ completed, total: jobs.length });
+        if (completed === jobs.length) finish();
+        else dispatch(worker);
+      };
+      worker.onerror = (e) => finish(new Error(e.message || 'Error en el proceso de simulación'));
+      workers.push(worker);
+      dispatch(worker);
+    }
+  });
+}
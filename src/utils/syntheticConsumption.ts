@@ -0,0 +1,155 @@
+import type { ConsumptionRecord, ReeConsumptionProfile } from '../db.ts';
+import { isHolidayOrWeekend } from './tariffSchedule.ts';
+import { hoursInDay, wallClockHour } from './timezone.ts';
+
+/** formatId stored on generated datasets, so they are never mistaken for real meter data. */
+export const SYNTHETIC_FORMAT_ID = 'synthetic';
+
+export type HouseholdType = 'standard' | 'daytime' | 'evening' | 'electric-heating';
+
+export const HOUSEHOLD_TYPES: { id: HouseholdType; name: string; description: string }[] = [
+  { id: 'standard', name: 'Estándar', description: 'Perfil 2.0TD de REE sin ajustes' },
+  { id: 'daytime', name: 'Teletrabajo / en casa', description: 'Más consumo en horas de sol' },
+  { id: 'evening', name: 'Fuera de casa de día', description: 'Consumo concentrado por la mañana temprano y la noche' },
+  { id: 'electric-heating', name: 'Calefacción eléctrica', description: 'Inviernos con mucho más consumo' },
+];
+
+// Fallback when REE's coefficients for the year have not been loaded (see utils/reeProfiles.ts):
+// hand-fitted monthly shares and seasonal hourly shapes loosely following the 2.0TD initial
+// profile. They are not REE's data. Shapes are indexed by clock hour (1-24).
+const MONTHLY_SHARE = [0.099, 0.087, 0.085, 0.075, 0.072, 0.073, 0.085, 0.086, 0.077, 0.076, 0.084, 0.1];
+
+const WINTER_WEEKDAY = [
+  3.1, 2.6, 2.3, 2.2, 2.2, 2.3, 2.9, 4.0, 4.6, 4.4, 4.2, 4.1, 4.2, 4.5, 4.6, 4.0, 3.8, 4.0, 4.8, 5.8, 6.4, 6.3, 5.4,
+  4.1,
+];
+const SUMMER_WEEKDAY = [
+  3.6, 3.0, 2.7, 2.5, 2.4, 2.4, 2.7, 3.3, 3.8, 4.0, 4.2, 4.4, 4.7, 5.0, 5.2, 5.0, 4.7, 4.5, 4.5, 4.7, 5.0, 5.4, 5.3,
+  4.5,
+];
+/** Weekends and holidays: later mornings, more consumption around midday. */
+const WEEKEND_MULTIPLIER = [
+  1.05, 1.05, 1.05, 1.0, 1.0, 0.95, 0.8, 0.75, 0.9, 1.1, 1.2, 1.2, 1.2, 1.2, 1.15, 1.05, 1.0, 1.0, 0.95, 0.95, 0.95,
+  0.95, 1.0, 1.05,
+];
+/** Weekends and holidays use more energy than working days. */
+const WEEKEND_DAILY_FACTOR = 1.1;
+
+const HOUSEHOLD_HOURLY_MULTIPLIER: Record<HouseholdType, (hour: number) => number> = {
+  standard: () => 1,
+  daytime: (h) => (h >= 10 && h <= 18 ? 1.35 : 1),
+  evening: (h) => (h >= 10 && h <= 18 ? 0.6 : h >= 19 ? 1.2 : 1),
+  'electric-heating': () => 1,
+};
+
+const HOUSEHOLD_MONTHLY_MULTIPLIER: Record<HouseholdType, (month: number) => number> = {
+  standard: () => 1,
+  daytime: () => 1,
+  evening: () => 1,
+  'electric-heating': (m) => [1.8, 1.6, 1.3, 1, 1, 1, 1, 1, 1, 1, 1.3, 1.8][m - 1],
+};
+
+export interface SyntheticProfileInput {
+  year: number;
+  householdType: HouseholdType;
+  /** Annual consumption (kWh). Ignored when monthly totals are given. */
+  annualKwh: number;
+  /**
+   * Known monthly totals from bills (kWh), index 0 = January; null for unknown months.
+   * Known months keep their exact totals, the rest are scaled from the profile.
+   */
+  monthlyKwh?: (number | null)[];
+  /**
+   * REE's 2.0TD initial profile of `year`; the household multipliers are applied on top of it.
+   * Without it the approximate shapes above are used.
+   */
+  reeProfile?: ReeConsumptionProfile | null;
+}
+
+/** The REE profile when it matches the year being generated. */
+function reeProfileFor(input: SyntheticProfileInput): ReeConsumptionProfile | null {
+  return input.reeProfile?.year === input.year ? input.reeProfile : null;
+}
+
+/** Monthly sums of REE's coefficients, index 0 = January. */
+function reeMonthlyShares(profile: ReeConsumptionProfile): number[] {
+  const shares = Array(12).fill(0);
+  for (const [date, values] of Object.entries(profile.coefficients)) {
+    shares[+date.substring(5, 7) - 1] += values.reduce((s, v) => s + v, 0);
+  }
+  return shares;
+}
+
+function monthlyShares(input: SyntheticProfileInput): number[] {
+  const profile = reeProfileFor(input);
+  const base = profile ? reeMonthlyShares(profile) : MONTHLY_SHARE;
+  const weighted = base.map((s, i) => s * HOUSEHOLD_MONTHLY_MULTIPLIER[input.householdType](i + 1));
+  const total = weighted.reduce((s, v) => s + v, 0);
+  return weighted.map((v) => v / total);
+}
+
+/** Monthly totals (kWh) to distribute, from either an annual figure or partial bill data. */
+export function getMonthlyTargets(input: SyntheticProfileInput): number[] {
+  const shares = monthlyShares(input);
+  const known = input.monthlyKwh ?? [];
+  const knownMonths = shares.map((_, i) => known[i] ?? null);
+  if (knownMonths.every((v) => v === null)) return shares.map((s) => s * input.annualKwh);
+
+  const knownKwh = knownMonths.reduce<number>((s, v) => s + (v ?? 0), 0);
+  const knownShare = shares.reduce((s, share, i) => s + (knownMonths[i] !== null ? share : 0), 0);
+  const estimatedAnnual = knownShare > 0 ? knownKwh / knownShare : 0;
+  return shares.map((share, i) => knownMonths[i] ?? share * estimatedAnnual);
+}
+
+function hourlyShape(month: number, weekend: boolean, householdType: HouseholdType): number[] {
+  const base = month >= 4 && month <= 9 ? SUMMER_WEEKDAY : WINTER_WEEKDAY;
+  const shape = base.map(
+    (v, i) => v * (weekend ? WEEKEND_MULTIPLIER[i] : 1) * HOUSEHOLD_HOURLY_MULTIPLIER[householdType](i + 1),
+  );
+  const total = shape.reduce((s, v) => s + v, 0);
+  return shape.map((v) => v / total);
+}
+
+/**
+ * Relative weight of each hour of a day within its month: REE's coefficients when loaded, else the
+ * approximate shape scaled by the weekend factor. Both get the household's hourly multiplier.
+ */
+function dayWeights(date: string, input: SyntheticProfileInput, profile: ReeConsumptionProfile | null): number[] {
+  const hourly = HOUSEHOLD_HOURLY_MULTIPLIER[input.householdType];
+  if (profile) {
+    return (profile.coefficients[date] ?? []).map((c, i) => c * hourly(wallClockHour(date, i + 1)));
+  }
+  const month = +date.substring(5, 7);
+  const weekend = isHolidayOrWeekend(new Date(date + 'T00:00:00Z'));
+  // Shapes are by clock hour; DST days skip or repeat one, so shares are renormalised per day
+  const shape = hourlyShape(month, weekend, input.householdType);
+  const shares = Array.from({ length: hoursInDay(date) }, (_, i) => shape[wallClockHour(date, i + 1) - 1]);
+  const dayTotal = shares.reduce((s, v) => s + v, 0);
+  return shares.map((v) => (v / dayTotal) * (weekend ? WEEKEND_DAILY_FACTOR : 1));
+}
+
+/** Generate a full year of hourly records following the profile. */
+export function generateSyntheticConsumption(input: SyntheticProfileInput): ConsumptionRecord[] {
+  const targets = getMonthlyTargets(input);
+  const profile = reeProfileFor(input);
+  const records: ConsumptionRecord[] = [];
+
+  for (let month = 1; month <= 12; month++) {
+    const daysInMonth = new Date(Date.UTC(input.year, month, 0)).getUTCDate();
+    const days = Array.from({ length: daysInMonth }, (_, i) => {
+      const date = `${input.year}-${String(month).padStart(2, '0')}-${String(i + 1).padStart(2, '0')}`;
+      return { date, weights: dayWeights(date, input, profile) };
+    });
+
+    const monthWeight = days.reduce((s, d) => s + d.weights.reduce((ds, w) => ds + w, 0), 0);
+    if (monthWeight <= 0) continue;
+    for (const { date, weights } of days) {
+      weights.forEach((weight, i) => {
+        const kwh = (targets[month - 1] * weight) / monthWeight;
+        records.push({ date, hour: i + 1, kwh: Math.round(kwh * 1000) / 1000 });
+      });
+    }
+  }
+
+  return records;
+}
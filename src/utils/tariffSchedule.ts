@@ -1,57 +1,105 @@
-import type { DateRange, TimeSlot, TariffSchedule } from '../db.ts';
-
-// Spanish national holidays (fixed dates)
-const NATIONAL_HOLIDAYS = [
-  '01-01', // Año Nuevo
-  '01-06', // Epifanía
-  '05-01', // Día del Trabajador
-  '08-15', // Asunción
-  '10-12', // Fiesta Nacional
-  '11-01', // Todos los Santos
-  '12-06', // Constitución
-  '12-08', // Inmaculada
-  '12-25', // Navidad
-];
+import type { DateRange, TimeSlot, TariffRegion, TariffSchedule } from '../db.ts';
+import { wallClockHour } from './timezone.ts';
+import { is20TDHoliday, isHoliday } from './holidays.ts';
+import { getRegion } from './regions.ts';
 
 function isWeekend(date: Date): boolean {
   const day = date.getUTCDay();
   return day === 0 || day === 6;
 }
 
-function isNationalHoliday(date: Date): boolean {
-  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
-  const dd = String(date.getUTCDate()).padStart(2, '0');
-  return NATIONAL_HOLIDAYS.includes(`${mm}-${dd}`);
+/**
+ * Weekend or holiday in the national calendar (Good Friday included), plus any extra entries
+ * such as a schedule's regional or local holidays (see holidays.ts for the entry format).
+ */
+export function isHolidayOrWeekend(date: Date, extraHolidays?: string[]): boolean {
+  return isWeekend(date) || isHoliday(date.toISOString().slice(0, 10), extraHolidays);
 }
 
-export function isHolidayOrWeekend(date: Date): boolean {
-  return isWeekend(date) || isNationalHoliday(date);
-}
+/**
+ * 2.0TD punta and llano hours on working days, as clock intervals [start, end) in hours.
+ * Everything else is valle (0-8h). Canarias uses the peninsular hours on its own clock;
+ * Ceuta and Melilla shift punta later (CNMC Circular 3/2020).
+ */
+const PERIODS_20TD: Record<TariffRegion, { punta: [number, number][]; llano: [number, number][] }> = {
+  peninsula: { punta: [[10, 14], [18, 22]], llano: [[8, 10], [14, 18], [22, 24]] },
+  canarias: { punta: [[10, 14], [18, 22]], llano: [[8, 10], [14, 18], [22, 24]] },
+  ceuta: { punta: [[11, 15], [19, 23]], llano: [[8, 11], [15, 19], [23, 24]] },
+  melilla: { punta: [[11, 15], [20, 24]], llano: [[8, 11], [15, 20]] },
+};
 
 /**
  * Get tariff period for Spanish 2.0TD tariff
  * @param dateStr YYYY-MM-DD
  * @param hour 1-24 (Spanish CSV convention)
+ * @param region supply region, which sets the punta/llano hours
  */
-export function getTariffPeriod(dateStr: string, hour: number): string {
+export function getTariffPeriod(dateStr: string, hour: number, region: TariffRegion = 'peninsula'): string {
   const date = new Date(dateStr + 'T00:00:00Z');
 
-  // Weekends and national holidays → all Valle
-  if (isWeekend(date) || isNationalHoliday(date)) {
+  // Weekends and fixed, non-replaceable national holidays → all Valle.
+  // Movable ones such as Good Friday are excluded by the 2.0TD definition.
+  if (isWeekend(date) || is20TDHoliday(dateStr)) {
     return 'valle';
   }
 
   // Hour 1-24 maps to interval (hour-1):00 to hour:00
-  const h = hour;
+  const clockHour = hour - 1;
+  const inRanges = (ranges: [number, number][]) =>
+    ranges.some(([start, end]) => clockHour >= start && clockHour < end);
+
+  const periods = PERIODS_20TD[region];
+  if (inRanges(periods.punta)) return 'punta';
+  if (inRanges(periods.llano)) return 'llano';
+  return 'valle';
+}
 
-  // Valle: 0-8h (hours 1-8)
-  if (h >= 1 && h <= 8) return 'valle';
+type Season30TD = 'alta' | 'media-alta' | 'media' | 'baja';
+
+/** 3.0TD season of each month (index 0 = January) per zone (CNMC Circular 3/2020). */
+const SEASONS_30TD: Record<TariffRegion, Season30TD[]> = {
+  peninsula: ['alta', 'alta', 'media-alta', 'baja', 'baja', 'media', 'alta', 'media', 'media', 'baja', 'media-alta', 'alta'],
+  canarias: ['media', 'media', 'media', 'baja', 'baja', 'baja', 'alta', 'alta', 'alta', 'alta', 'media-alta', 'media-alta'],
+  ceuta: ['alta', 'alta', 'media', 'baja', 'baja', 'baja', 'media-alta', 'alta', 'alta', 'media-alta', 'media', 'media'],
+  melilla: ['alta', 'media-alta', 'baja', 'baja', 'baja', 'media', 'alta', 'alta', 'alta', 'media', 'media', 'media-alta'],
+};
+
+/** Periods of a 3.0TD working day from 8h on: [inside the peak windows, rest of the day]. */
+const SEASON_PERIODS_30TD: Record<Season30TD, [string, string]> = {
+  alta: ['P1', 'P2'],
+  'media-alta': ['P2', 'P3'],
+  media: ['P3', 'P4'],
+  baja: ['P4', 'P5'],
+};
+
+/** 3.0TD peak windows per zone, as clock intervals [start, end) in hours. */
+const PEAK_HOURS_30TD: Record<TariffRegion, [number, number][]> = {
+  peninsula: [[9, 14], [18, 22]],
+  canarias: [[9, 14], [18, 22]],
+  ceuta: [[10, 15], [19, 23]],
+  melilla: [[10, 15], [20, 24]],
+};
 
-  // Punta: 10-14h (hours 11-14), 18-22h (hours 19-22)
-  if ((h >= 11 && h <= 14) || (h >= 19 && h <= 22)) return 'punta';
+/**
+ * Get tariff period (P1-P6) for the Spanish 3.0TD tariff. Energy and power share it.
+ * P6 covers 0-8h every day plus weekends and the same holidays as 2.0TD; the rest of a
+ * working day splits into two periods that depend on the season of the month.
+ * Baleares has its own seasons and is billed here with the peninsular calendar.
+ * @param dateStr YYYY-MM-DD
+ * @param hour 1-24 (Spanish CSV convention)
+ * @param region supply region (zone), which sets seasons and peak hours
+ */
+export function getTariffPeriod30TD(dateStr: string, hour: number, region: TariffRegion = 'peninsula'): string {
+  const date = new Date(dateStr + 'T00:00:00Z');
+  if (isWeekend(date) || is20TDHoliday(dateStr)) return 'P6';
+
+  const clockHour = hour - 1;
+  if (clockHour < 8) return 'P6';
 
-  // Llano: 8-10h (hours 9-10), 14-18h (hours 15-18), 22-24h (hours 23-24)
-  return 'llano';
+  const season = SEASONS_30TD[region][date.getUTCMonth()];
+  const [peak, offPeak] = SEASON_PERIODS_30TD[season];
+  const isPeak = PEAK_HOURS_30TD[region].some(([start, end]) => clockHour >= start && clockHour < end);
+  return isPeak ? peak : offPeak;
 }
 
 /**
@@ -75,16 +123,18 @@ function dateInRange(month: number, day: number, range: DateRange): boolean {
  * @param dateStr YYYY-MM-DD
  * @param hour 1-24 (Spanish CSV convention)
  * @param dateRanges the custom schedule's date ranges
+ * @param holidays the custom schedule's extra holidays, on top of the national calendar
  */
 export function resolveCustomPeriod(
   dateStr: string,
   hour: number,
   dateRanges: DateRange[],
+  holidays?: string[],
 ): string {
   const date = new Date(dateStr + 'T00:00:00Z');
   const month = date.getUTCMonth() + 1;
   const day = date.getUTCDate();
-  const holiday = isHolidayOrWeekend(date);
+  const holiday = isHolidayOrWeekend(date, holidays);
 
   // Find the matching date range
   const range = dateRanges.find((r) => dateInRange(month, day, r));
@@ -110,14 +160,14 @@ export function resolveCustomPeriod(
 
 /**
  * Get power tariff period for Spanish 2.0TD tariff.
- * Power only has 2 periods: punta (8:00-0:00 workdays) and valle (rest).
+ * Power only has 2 periods: punta (8:00-0:00 workdays) and valle (rest), in every region.
  * @param dateStr YYYY-MM-DD
  * @param hour 1-24 (Spanish CSV convention)
  */
 export function getPowerTariffPeriod(dateStr: string, hour: number): string {
   const date = new Date(dateStr + 'T00:00:00Z');
 
-  if (isWeekend(date) || isNationalHoliday(date)) {
+  if (isWeekend(date) || is20TDHoliday(dateStr)) {
     return 'valle';
   }
 
@@ -130,30 +180,39 @@ export function getPowerTariffPeriod(dateStr: string, hour: number): string {
  * Resolve the tariff period name for any schedule type.
  * @param schedule The tariff schedule (or null for flat)
  * @param date YYYY-MM-DD
- * @param hour 1-24 (Spanish CSV convention)
+ * @param hour position of the hour in the local day: 1-24, or 1-23 / 1-25 on DST transition
+ *   days (CSV "Hora"). Periods are defined in clock time, so it is converted first.
+ * @param region supply region: 2.0TD hours and, for Canarias, the local clock
  */
 export function resolveTariffPeriod(
   schedule: TariffSchedule | null,
   date: string,
   hour: number,
+  region: TariffRegion = 'peninsula',
 ): string {
   if (!schedule || schedule.type === 'flat') return 'flat';
-  if (schedule.type === '2.0TD') return getTariffPeriod(date, hour);
-  return resolveCustomPeriod(date, hour, schedule.dateRanges ?? []);
+  const clockHour = wallClockHour(date, hour, getRegion(region).clockShiftHours);
+  if (schedule.type === '2.0TD') return getTariffPeriod(date, clockHour, region);
+  if (schedule.type === '3.0TD') return getTariffPeriod30TD(date, clockHour, region);
+  return resolveCustomPeriod(date, clockHour, schedule.dateRanges ?? [], schedule.holidays);
 }
 
 /**
  * Resolve the power tariff period for any schedule type.
- * For 2.0TD, power has only 2 periods (punta/valle) instead of 3.
+ * For 2.0TD, power has only 2 periods (punta/valle) instead of 3; 3.0TD uses the same six.
+ * `hour` and `region` are as in resolveTariffPeriod.
  */
 export function resolvePowerTariffPeriod(
   schedule: TariffSchedule | null,
   date: string,
   hour: number,
+  region: TariffRegion = 'peninsula',
 ): string {
   if (!schedule || schedule.type === 'flat') return 'flat';
-  if (schedule.type === '2.0TD') return getPowerTariffPeriod(date, hour);
-  return resolveCustomPeriod(date, hour, schedule.dateRanges ?? []);
+  const clockHour = wallClockHour(date, hour, getRegion(region).clockShiftHours);
+  if (schedule.type === '2.0TD') return getPowerTariffPeriod(date, clockHour);
+  if (schedule.type === '3.0TD') return getTariffPeriod30TD(date, clockHour, region);
+  return resolveCustomPeriod(date, clockHour, schedule.dateRanges ?? [], schedule.holidays);
 }
 
 const PERIOD_COLORS = [
@@ -179,6 +238,12 @@ export function getTariffPeriodColor(period: string, allPeriods?: string[]): str
     llano: '#f57c00',
     valle: '#388e3c',
     flat: '#1976d2',
+    p1: '#d32f2f',
+    p2: '#f57c00',
+    p3: '#fbc02d',
+    p4: '#7cb342',
+    p5: '#388e3c',
+    p6: '#00796b',
   };
   if (known[period.toLowerCase()]) return known[period.toLowerCase()];
 
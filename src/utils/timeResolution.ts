@@ -0,0 +1,70 @@
+import type { ConsumptionRecord } from '../db.ts';
+
+/**
+ * Records are hourly unless they carry a `quarter` (1-4): quarter q of hour h covers
+ * (h-1):((q-1)×15) to (h-1):(q×15), keeping the 1-24 hour convention of the CSVs.
+ */
+export const QUARTERS_PER_HOUR = 4;
+
+export interface TimeInterval {
+  date: string;
+  /** 1-24 (Spanish CSV convention) */
+  hour: number;
+  /** 1-4 for 15-minute intervals, undefined for whole hours. */
+  quarter?: number;
+}
+
+/** Length of the interval in hours: 1 for hourly records, 0.25 for quarter-hours. */
+export function getIntervalHours(interval: TimeInterval): number {
+  return interval.quarter ? 1 / QUARTERS_PER_HOUR : 1;
+}
+
+export function intervalKey(interval: TimeInterval): string {
+  return interval.quarter
+    ? `${interval.date}-${interval.hour}-${interval.quarter}`
+    : `${interval.date}-${interval.hour}`;
+}
+
+export function compareIntervals(a: TimeInterval, b: TimeInterval): number {
+  return a.date.localeCompare(b.date) || a.hour - b.hour || (a.quarter ?? 0) - (b.quarter ?? 0);
+}
+
+/** Chart/tooltip label: "14h" for hours, start time "13:45" for quarter-hours. */
+export function formatInterval(interval: TimeInterval): string {
+  if (!interval.quarter) return `${interval.hour}h`;
+  const minutes = (interval.quarter - 1) * 15;
+  return `${String(interval.hour - 1).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export function isQuarterHourly(records: ConsumptionRecord[]): boolean {
+  return records.some((r) => r.quarter !== undefined);
+}
+
+/** Split hourly records into four equal quarter-hours; quarter-hourly records are kept as is. */
+export function upsampleToQuarterHours(records: ConsumptionRecord[]): ConsumptionRecord[] {
+  return records.flatMap((r) => {
+    if (r.quarter !== undefined) return [r];
+    const split = (value: number | undefined) => (value === undefined ? undefined : value / QUARTERS_PER_HOUR);
+    return Array.from({ length: QUARTERS_PER_HOUR }, (_, i) => {
+      const quarter: ConsumptionRecord = { date: r.date, hour: r.hour, quarter: i + 1, kwh: r.kwh / QUARTERS_PER_HOUR };
+      if (r.exportKwh !== undefined) quarter.exportKwh = split(r.exportKwh);
+      if (r.generationKwh !== undefined) quarter.generationKwh = split(r.generationKwh);
+      return quarter;
+    });
+  });
+}
+
+/**
+ * Merge several datasets into one series, later datasets overriding earlier ones on the same
+ * interval. If any of them is quarter-hourly, hourly ones are upsampled so the series is uniform.
+ */
+export function mergeConsumptionRecords(datasets: ConsumptionRecord[][]): ConsumptionRecord[] {
+  const quarterly = datasets.some(isQuarterHourly);
+  const merged = new Map<string, ConsumptionRecord>();
+  for (const records of datasets) {
+    for (const r of quarterly ? upsampleToQuarterHours(records) : records) {
+      merged.set(intervalKey(r), r);
+    }
+  }
+  return [...merged.values()];
+}
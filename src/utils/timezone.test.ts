@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { dayPositionOfClockHour, hoursInDay, intervalStartUtc, toLocalHour, wallClockHour } from './timezone.ts';
+
+const SPRING = '2024-03-31';
+const AUTUMN = '2024-10-27';
+
+describe('hoursInDay', () => {
+  it('has 23 hours on the March transition and 25 on the October one', () => {
+    expect(hoursInDay(SPRING)).toBe(23);
+    expect(hoursInDay(AUTUMN)).toBe(25);
+  });
+
+  it('has 24 hours on the days around them', () => {
+    for (const date of ['2024-03-30', '2024-04-01', '2024-10-26', '2024-10-28', '2024-06-15']) {
+      expect(hoursInDay(date)).toBe(24);
+    }
+  });
+});
+
+describe('wallClockHour', () => {
+  it('skips clock hour 3 (02:00-03:00) in March', () => {
+    const clock = Array.from({ length: 23 }, (_, i) => wallClockHour(SPRING, i + 1));
+    expect(clock).toEqual([1, 2, ...Array.from({ length: 21 }, (_, i) => i + 4)]);
+  });
+
+  it('repeats clock hour 3 (02:00-03:00) in October', () => {
+    const clock = Array.from({ length: 25 }, (_, i) => wallClockHour(AUTUMN, i + 1));
+    expect(clock).toEqual([1, 2, 3, 3, ...Array.from({ length: 21 }, (_, i) => i + 4)]);
+  });
+
+  it('is the identity on a normal day', () => {
+    for (let h = 1; h <= 24; h++) expect(wallClockHour('2024-06-15', h)).toBe(h);
+  });
+
+  it('changes the Canary clock one hour earlier (01:00-02:00)', () => {
+    expect([1, 2, 3].map((h) => wallClockHour(SPRING, h, -1))).toEqual([1, 3, 4]);
+    expect([1, 2, 3, 4].map((h) => wallClockHour(AUTUMN, h, -1))).toEqual([1, 2, 2, 3]);
+  });
+});
+
+describe('dayPositionOfClockHour', () => {
+  it('has no position for the skipped March hour', () => {
+    expect(dayPositionOfClockHour(SPRING, 3)).toBeUndefined();
+    expect(dayPositionOfClockHour(SPRING, 2)).toBe(2);
+    expect(dayPositionOfClockHour(SPRING, 4)).toBe(3);
+    expect(dayPositionOfClockHour(SPRING, 24)).toBe(23);
+  });
+
+  it('tells the two October 02:00-03:00 hours apart by occurrence', () => {
+    expect(dayPositionOfClockHour(AUTUMN, 3)).toBe(3);
+    expect(dayPositionOfClockHour(AUTUMN, 3, 2)).toBe(4);
+    expect(dayPositionOfClockHour(AUTUMN, 4)).toBe(5);
+    expect(dayPositionOfClockHour(AUTUMN, 24)).toBe(25);
+  });
+
+  it('inverts wallClockHour', () => {
+    for (const date of [SPRING, AUTUMN]) {
+      const seen = new Map<number, number>();
+      for (let h = 1; h <= hoursInDay(date); h++) {
+        const clock = wallClockHour(date, h);
+        const occurrence = (seen.get(clock) ?? 0) + 1;
+        seen.set(clock, occurrence);
+        expect(dayPositionOfClockHour(date, clock, occurrence)).toBe(h);
+      }
+    }
+  });
+});
+
+describe('toLocalHour', () => {
+  it('places the UTC instants of the transition days', () => {
+    // 01:00 UTC is 03:00 CEST, the third hour of the short day
+    expect(toLocalHour(Date.UTC(2024, 2, 31, 1))).toEqual({ date: SPRING, hour: 3 });
+    // 02:00 CEST (00:00 UTC) and 02:00 CET (01:00 UTC) are positions 3 and 4
+    expect(toLocalHour(Date.UTC(2024, 9, 27, 0))).toEqual({ date: AUTUMN, hour: 3 });
+    expect(toLocalHour(Date.UTC(2024, 9, 27, 1))).toEqual({ date: AUTUMN, hour: 4 });
+    expect(toLocalHour(Date.UTC(2024, 9, 26, 22))).toEqual({ date: AUTUMN, hour: 1 });
+    expect(toLocalHour(Date.UTC(2024, 9, 27, 22, 30))).toEqual({ date: AUTUMN, hour: 25 });
+  });
+
+  it('round-trips every position through intervalStartUtc', () => {
+    for (const date of [SPRING, AUTUMN]) {
+      for (let h = 1; h <= hoursInDay(date); h++) {
+        expect(toLocalHour(intervalStartUtc(date, h))).toEqual({ date, hour: h });
+      }
+    }
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Europe/Madrid time model.
+ *
+ * Consumption data numbers the hours of each local day in order: "Hora" 1-24 on normal days,
+ * 1-23 on the last Sunday of March and 1-25 on the last Sunday of October. A record is therefore
+ * identified by its local date plus its position in that day, and the duplicated October hour
+ * is simply hour 4 (02:00-03:00 CEST is hour 3, 02:00-03:00 CET is hour 4).
+ *
+ * Sources keyed by real time (PVGIS in UTC, REE prices with offsets) are placed on the same
+ * timeline through UTC instants; wall-clock hours are only used where the rule itself is written
+ * in clock time (tariff periods).
+ *
+ * The Canary Islands follow the same DST rule one hour behind. Functions that place a local hour
+ * on the real timeline take `clockShiftHours` (the region's clock minus Madrid's, -1 there);
+ * transitions happen at the same UTC instants, so day lengths are the same everywhere.
+ */
+
+const HOUR_MS = 3_600_000;
+
+/** UTC instant of the last Sunday of `month` (1-based) at 01:00 UTC, when EU clocks change. */
+function transitionUtc(year: number, month: number): number {
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const lastSunday = lastDay.getUTCDate() - lastDay.getUTCDay();
+  return Date.UTC(year, month - 1, lastSunday, 1);
+}
+
+/** Offset of Madrid local time from UTC at a given instant: +2 in summer time, +1 otherwise. */
+export function madridOffsetHours(utcMs: number): number {
+  const year = new Date(utcMs).getUTCFullYear();
+  return utcMs >= transitionUtc(year, 3) && utcMs < transitionUtc(year, 10) ? 2 : 1;
+}
+
+function parseDate(date: string): [number, number, number] {
+  const [y, m, d] = date.split('-').map((v) => parseInt(v, 10));
+  return [y, m, d];
+}
+
+function formatDate(utcMs: number): string {
+  return new Date(utcMs).toISOString().slice(0, 10);
+}
+
+/** UTC instant at which the local day `date` (YYYY-MM-DD) starts. */
+export function localMidnightUtc(date: string, clockShiftHours = 0): number {
+  const [y, m, d] = parseDate(date);
+  const nominal = Date.UTC(y, m - 1, d);
+  // Clocks never change around midnight, so the offset 2 h before nominal midnight UTC
+  // (22:00 UTC of the previous day) is the one in force at local midnight
+  return nominal - (madridOffsetHours(nominal - 2 * HOUR_MS) + clockShiftHours) * HOUR_MS;
+}
+
+/** Number of hours in the local day: 23 or 25 on DST transition days, 24 otherwise. */
+export function hoursInDay(date: string): number {
+  const [y, m, d] = parseDate(date);
+  const next = formatDate(Date.UTC(y, m - 1, d + 1));
+  return Math.round((localMidnightUtc(next) - localMidnightUtc(date)) / HOUR_MS);
+}
+
+/** UTC instant at which hour `hour` (1-based position in the local day) starts. */
+export function intervalStartUtc(date: string, hour: number, clockShiftHours = 0): number {
+  return localMidnightUtc(date, clockShiftHours) + (hour - 1) * HOUR_MS;
+}
+
+/** Local date and 1-based hour position of the hour containing a UTC instant. */
+export function toLocalHour(utcMs: number): { date: string; hour: number } {
+  const date = formatDate(utcMs + madridOffsetHours(utcMs) * HOUR_MS);
+  return { date, hour: Math.floor((utcMs - localMidnightUtc(date)) / HOUR_MS) + 1 };
+}
+
+/**
+ * Clock hour in 1-24 convention (hour h = (h-1):00-h:00 on the wall clock) of a day position.
+ * Identity on normal days; on transition days later positions shift by one.
+ */
+export function wallClockHour(date: string, hour: number, clockShiftHours = 0): number {
+  const start = intervalStartUtc(date, hour, clockShiftHours);
+  return new Date(start + (madridOffsetHours(start) + clockShiftHours) * HOUR_MS).getUTCHours() + 1;
+}
+
+/**
+ * Inverse of wallClockHour, for files that label hours by clock time. `occurrence` picks the
+ * second 02:00-03:00 of the October transition. Returns undefined for the skipped March hour.
+ */
+export function dayPositionOfClockHour(
+  date: string,
+  clockHour: number,
+  occurrence = 1,
+  clockShiftHours = 0,
+): number | undefined {
+  let seen = 0;
+  for (let h = 1; h <= hoursInDay(date); h++) {
+    if (wallClockHour(date, h, clockShiftHours) === clockHour && ++seen === occurrence) return h;
+  }
+  return undefined;
+}
+
+/** "MM-DD-HH" of the UTC hour starting at `utcMs` — the key of the solar and temperature indexes. */
+export function utcHourKey(utcMs: number): string {
+  const d = new Date(utcMs);
+  const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(d.getUTCDate()).padStart(2, '0');
+  return `${mm}-${dd}-${String(d.getUTCHours()).padStart(2, '0')}`;
+}